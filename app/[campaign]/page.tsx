@@ -0,0 +1,62 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { AudioUpload } from "@/components/audio-upload";
+import {
+  getCampaign,
+  getCampaignPreset,
+  getCampaignRecorder,
+  getCampaignScript,
+} from "@/lib/campaigns";
+import { getScript } from "@/lib/scripts";
+import { getEnhancementPreset } from "@/lib/enhancement-presets";
+import { CURRENT_CONSENT_TERMS, formatConsentText } from "@/lib/consent";
+
+type Params = Promise<{ campaign: string }>;
+
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const campaign = getCampaign((await params).campaign);
+  if (!campaign) {
+    return {};
+  }
+
+  return {
+    title: `Mirage - Voice Modulation Demo ${campaign.eventName}`,
+    description: `Record your voice for AI-powered voice modulation demo at ${campaign.eventName}`,
+  };
+}
+
+/**
+ * Campaign chosen by path, e.g. /ces-2026; /?campaign=ces-2026 works too
+ */
+export default async function CampaignPage({
+  params,
+  searchParams,
+}: {
+  params: Params;
+  searchParams: Promise<{ script?: string; preset?: string }>;
+}) {
+  const campaign = getCampaign((await params).campaign);
+  if (!campaign) {
+    notFound();
+  }
+
+  const { script: scriptId, preset: presetId } = await searchParams;
+  const script = getCampaignScript(campaign, scriptId) || getScript(campaign.scriptId)!;
+  const preset =
+    getCampaignPreset(campaign, presetId) || getEnhancementPreset(campaign.presetId)!;
+
+  const consent = {
+    version: CURRENT_CONSENT_TERMS.version,
+    text: formatConsentText(CURRENT_CONSENT_TERMS, campaign),
+  };
+
+  return (
+    <AudioUpload
+      campaign={campaign}
+      script={script}
+      presetId={preset.id}
+      consent={consent}
+      recorder={getCampaignRecorder(campaign)}
+    />
+  );
+}
@@ -0,0 +1,147 @@
+import Link from "next/link";
+import { getSubmissionRepository } from "@/lib/submissions";
+import { CAMPAIGNS, getCampaign } from "@/lib/campaigns";
+import { SUBMISSION_STATUS_LABELS, getPlaybackUrls, parseSubmissionQuery } from "@/lib/admin";
+import { SubmissionPlayers, SubmissionStatusBadge } from "@/components/admin-submission";
+import { Button } from "@/components/ui/button";
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const filters = parseSubmissionQuery(await searchParams);
+  const submissions = await getSubmissionRepository().list(filters);
+  const rows = await Promise.all(
+    submissions.map(async (submission) => ({
+      submission,
+      urls: await getPlaybackUrls(submission),
+    }))
+  );
+
+  return (
+    <main className="min-h-screen bg-white px-8 py-10 md:px-16">
+      <div className="mx-auto max-w-7xl space-y-8">
+        <h1 className="text-3xl font-normal text-black">Submissions</h1>
+
+        {/* Filters */}
+        <form className="flex flex-wrap items-end gap-4 text-sm">
+          <label className="space-y-1">
+            <span className="block text-neutral-600">Status</span>
+            <select
+              name="status"
+              defaultValue={filters.status || ""}
+              className="h-9 rounded-md border border-neutral-300 px-2"
+            >
+              <option value="">All</option>
+              {Object.entries(SUBMISSION_STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-neutral-600">Campaign</span>
+            <select
+              name="campaign"
+              defaultValue={filters.campaignId || ""}
+              className="h-9 rounded-md border border-neutral-300 px-2"
+            >
+              <option value="">All</option>
+              {CAMPAIGNS.map((campaign) => (
+                <option key={campaign.id} value={campaign.id}>
+                  {campaign.eventName}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-neutral-600">From</span>
+            <input
+              type="date"
+              name="from"
+              defaultValue={filters.from}
+              className="h-9 rounded-md border border-neutral-300 px-2"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-neutral-600">To</span>
+            <input
+              type="date"
+              name="to"
+              defaultValue={filters.to}
+              className="h-9 rounded-md border border-neutral-300 px-2"
+            />
+          </label>
+          <label className="flex h-9 items-center gap-2">
+            <input
+              type="checkbox"
+              name="reprocess"
+              value="1"
+              defaultChecked={filters.needsReprocessing}
+            />
+            <span className="text-neutral-600">Needs reprocessing</span>
+          </label>
+          <Button type="submit" className="!bg-black !text-white hover:!bg-neutral-800">
+            Filter
+          </Button>
+          <Link href="/admin" className="text-neutral-600 underline">
+            Clear
+          </Link>
+        </form>
+
+        <p className="text-sm text-neutral-600">
+          {rows.length} submission{rows.length === 1 ? "" : "s"}
+        </p>
+
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-neutral-200 text-neutral-500">
+            <tr>
+              <th className="py-2 pr-4 font-normal">Submitted</th>
+              <th className="py-2 pr-4 font-normal">Name</th>
+              <th className="py-2 pr-4 font-normal">Email</th>
+              <th className="py-2 pr-4 font-normal">Campaign</th>
+              <th className="py-2 pr-4 font-normal">Duration</th>
+              <th className="py-2 pr-4 font-normal">Status</th>
+              <th className="py-2 font-normal">Audio</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ submission, urls }) => (
+              <tr key={submission.id} className="border-b border-neutral-100 align-top">
+                <td className="py-3 pr-4 whitespace-nowrap">
+                  <Link href={`/admin/submissions/${submission.id}`} className="underline">
+                    {new Date(submission.createdAt).toLocaleString("en-US", {
+                      dateStyle: "medium",
+                      timeStyle: "short",
+                    })}
+                  </Link>
+                </td>
+                <td className="py-3 pr-4">{submission.participant.name}</td>
+                <td className="py-3 pr-4">{submission.participant.email || "—"}</td>
+                <td className="py-3 pr-4">
+                  {getCampaign(submission.campaignId)?.eventName || submission.campaignId}
+                </td>
+                <td className="py-3 pr-4">
+                  {submission.rawDuration ? `${submission.rawDuration.toFixed(1)}s` : "—"}
+                </td>
+                <td className="py-3 pr-4">
+                  <SubmissionStatusBadge status={submission.status} />
+                  {submission.needsReprocessing && (
+                    <p className="mt-1 text-xs text-amber-700">Needs reprocessing</p>
+                  )}
+                </td>
+                <td className="py-3 min-w-[320px]">
+                  <SubmissionPlayers rawUrl={urls.raw} enhancedUrl={urls.enhanced} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,193 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import {
+  getSubmissionRepository,
+  type SubmissionReview,
+  type SubmissionStage,
+} from "@/lib/submissions";
+import { getJob } from "@/lib/jobs";
+import { getCampaign } from "@/lib/campaigns";
+import { getPlaybackUrls, getPreviewUrls, getSubmissionError } from "@/lib/admin";
+import { SubmissionPlayers, SubmissionStatusBadge } from "@/components/admin-submission";
+import { PipelineTimeline } from "@/components/pipeline-timeline";
+import { PreviewPicker } from "@/components/preview-picker";
+import { SendEmailButton } from "@/components/send-email-button";
+import { EMAIL_TEMPLATE_LABELS, listSubmissionEmails } from "@/lib/mailer";
+import { formatRecordingQuality } from "@/lib/recording-quality";
+
+export const dynamic = "force-dynamic";
+
+const STAGE_LABELS: Record<SubmissionStage, string> = {
+  received: "Received",
+  raw_stored: "Raw audio stored",
+  voice_cloned: "Voice cloned",
+  remixed: "Remixed",
+  enhanced_stored: "Enhanced audio stored",
+  notified: "Team notified",
+  voice_deleted: "Cloned voice deleted",
+  finished: "Finished",
+};
+
+const REVIEW_LABELS: Record<SubmissionReview["action"], string> = {
+  approved: "Approved & sent",
+  rejected: "Rejected",
+  reprocess: "Reprocess requested",
+};
+
+export default async function SubmissionPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const submission = await getSubmissionRepository().get(id);
+  if (!submission) {
+    notFound();
+  }
+
+  const job = submission.jobId ? await getJob(submission.jobId) : null;
+  const urls = await getPlaybackUrls(submission);
+  const previewUrls = await getPreviewUrls(submission);
+  const emails = await listSubmissionEmails(submission.id);
+  const error = getSubmissionError(submission);
+  const campaign = getCampaign(submission.campaignId);
+
+  const details: [string, string][] = [
+    ["Name", submission.participant.name],
+    ["Email", submission.participant.email || "—"],
+    ["Campaign", campaign ? `${campaign.eventName} (${campaign.id})` : submission.campaignId],
+    ["Script", submission.scriptId],
+    ["Preset", submission.presetId || "—"],
+    ["Source", submission.source === "enhance" ? "/api/enhance" : "/api/upload"],
+    ["Raw audio", submission.rawAudioFormat || "—"],
+    ["Raw duration", submission.rawDuration ? `${submission.rawDuration.toFixed(1)}s` : "—"],
+    [
+      "Recording quality",
+      submission.recordingQuality ? formatRecordingQuality(submission.recordingQuality) : "—",
+    ],
+    [
+      "Enhanced duration",
+      submission.enhancedDuration ? `${submission.enhancedDuration.toFixed(1)}s` : "—",
+    ],
+    ["Voice ID", submission.voiceId || "—"],
+    ["Consent", `v${submission.consent.version} at ${submission.consent.acceptedAt}`],
+    ["Submission ID", submission.id],
+    ["Job ID", submission.jobId || "—"],
+  ];
+
+  return (
+    <main className="min-h-screen bg-white px-8 py-10 md:px-16">
+      <div className="mx-auto max-w-3xl space-y-8">
+        <Link href="/admin" className="text-sm text-neutral-600 underline">
+          ← All submissions
+        </Link>
+
+        <div className="flex items-center gap-4">
+          <h1 className="text-3xl font-normal text-black">{submission.participant.name}</h1>
+          <SubmissionStatusBadge status={submission.status} />
+          {submission.needsReprocessing && (
+            <span className="text-sm text-amber-700">Needs reprocessing</span>
+          )}
+        </div>
+
+        <SubmissionPlayers rawUrl={urls.raw} enhancedUrl={urls.enhanced} />
+
+        {submission.previews && submission.previews.length > 1 && (
+          <div className="space-y-2">
+            <h2 className="text-lg font-normal text-black">Remix previews</h2>
+            <PreviewPicker
+              submissionId={submission.id}
+              previews={submission.previews.map((preview, index) => ({
+                url: previewUrls[index],
+                duration: preview.duration,
+              }))}
+              promotedPreview={submission.promotedPreview}
+              disabled={submission.status === "processing"}
+            />
+          </div>
+        )}
+
+        {error && (
+          <div className="space-y-2">
+            <h2 className="text-lg font-normal text-black">Error</h2>
+            <pre className="whitespace-pre-wrap rounded-lg bg-red-50 p-4 text-sm text-red-700">
+              {error}
+            </pre>
+          </div>
+        )}
+
+        <dl className="grid grid-cols-[max-content_1fr] gap-x-8 gap-y-2 text-sm">
+          {details.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-neutral-500">{label}</dt>
+              <dd className="break-all text-black">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {submission.participant.email && (
+          <div className="space-y-3">
+            <h2 className="text-lg font-normal text-black">Participant emails</h2>
+            <SendEmailButton
+              submissionId={submission.id}
+              template="ready"
+              label="Send AI voice email"
+              disabled={!urls.enhanced}
+            />
+            {emails.length === 0 ? (
+              <p className="text-sm text-neutral-500">No emails sent yet.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {emails.map((email) => (
+                  <li key={email.id} className="rounded-lg border border-neutral-200 p-3">
+                    <p className="text-black">
+                      {EMAIL_TEMPLATE_LABELS[email.template]} to {email.message.to}
+                    </p>
+                    <p className="text-xs text-neutral-500">
+                      {email.status === "sent"
+                        ? `Sent ${email.sentAt} via ${email.transport}`
+                        : email.status === "pending"
+                          ? `Pending after ${email.attempts} attempt(s); next try ${email.nextAttemptAt}`
+                          : `Failed after ${email.attempts} attempts`}
+                    </p>
+                    {email.lastError && email.status !== "sent" && (
+                      <p className="text-xs text-red-700">{email.lastError}</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {submission.reviews && submission.reviews.length > 0 && (
+          <div className="space-y-3">
+            <h2 className="text-lg font-normal text-black">Slack reviews</h2>
+            <ul className="space-y-1 text-sm">
+              {submission.reviews.map((review) => (
+                <li key={`${review.at}-${review.action}`} className="text-black">
+                  {REVIEW_LABELS[review.action]} by {review.by}
+                  <span className="text-xs text-neutral-500"> at {review.at}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <h2 className="text-lg font-normal text-black">Pipeline</h2>
+          {job && <PipelineTimeline events={job.events} />}
+          <ol className="space-y-1 text-xs text-neutral-500">
+            {(Object.keys(STAGE_LABELS) as SubmissionStage[])
+              .filter((stage) => submission.stages[stage])
+              .map((stage) => (
+                <li key={stage}>
+                  {submission.stages[stage]} — {STAGE_LABELS[stage]}
+                </li>
+              ))}
+          </ol>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { processEmailQueue } from "@/lib/mailer";
+
+// Protected by the admin basic auth in proxy.ts
+
+/**
+ * Retry pending participant emails that are due; suitable for a cron job
+ */
+export async function POST() {
+  try {
+    const report = await processEmailQueue();
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    console.error("Email queue error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to process the email queue.",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
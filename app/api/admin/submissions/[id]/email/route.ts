@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSubmissionRepository } from "@/lib/submissions";
+import { EMAIL_TEMPLATE_LABELS, sendParticipantEmail, type EmailTemplate } from "@/lib/mailer";
+import { getPlaybackUrls } from "@/lib/admin";
+
+// Protected by the admin basic auth in proxy.ts
+
+/**
+ * Email the participant; the body is { template: "received" | "ready" }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const submission = await getSubmissionRepository().get(id);
+
+    if (!submission) {
+      return NextResponse.json({ error: "Submission not found" }, { status: 404 });
+    }
+
+    if (!submission.participant.email) {
+      return NextResponse.json(
+        { error: "This submission has no participant email" },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const template: unknown = body?.template;
+    // Own keys only, so "constructor" and the like are not mistaken for templates
+    if (typeof template !== "string" || !Object.hasOwn(EMAIL_TEMPLATE_LABELS, template)) {
+      return NextResponse.json(
+        { error: 'template must be "received" or "ready"' },
+        { status: 400 }
+      );
+    }
+
+    const urls = await getPlaybackUrls(submission);
+    if (template === "ready" && !urls.enhanced) {
+      return NextResponse.json(
+        { error: "There is no enhanced audio to send yet" },
+        { status: 409 }
+      );
+    }
+
+    const record = await sendParticipantEmail(submission, template as EmailTemplate, {
+      enhancedUrl: urls.enhanced,
+      rawUrl: urls.raw,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: record.id,
+        status: record.status,
+        attempts: record.attempts,
+        nextAttemptAt: record.nextAttemptAt,
+        lastError: record.lastError,
+      },
+    });
+  } catch (error) {
+    console.error("Participant email error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to send email.",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSubmissionRepository } from "@/lib/submissions";
+import { promotePreview } from "@/lib/preview-promotion";
+
+// Protected by the admin basic auth in proxy.ts
+
+/**
+ * Promote one of a submission's remix previews; the body is { preview: <index> }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const submission = await getSubmissionRepository().get(id);
+
+    if (!submission) {
+      return NextResponse.json({ error: "Submission not found" }, { status: 404 });
+    }
+
+    if (submission.status === "processing") {
+      return NextResponse.json(
+        { error: "Submission is still processing. Try again once it has finished." },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const index = body?.preview;
+    if (!Number.isInteger(index) || !submission.previews?.[index]) {
+      return NextResponse.json(
+        { error: "preview must be the index of one of the submission's previews" },
+        { status: 400 }
+      );
+    }
+
+    const { submission: updated, notified } = await promotePreview(submission, index);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: updated.id,
+        promotedPreview: updated.promotedPreview,
+        enhancedFileName: updated.enhancedFileName,
+        notified,
+      },
+    });
+  } catch (error) {
+    console.error("Preview promotion error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to promote preview.",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
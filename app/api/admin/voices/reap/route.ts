@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_REAPER_MIN_AGE_MINUTES, reapOrphanedVoices } from "@/lib/voice-reaper";
+
+// Protected by the admin basic auth in proxy.ts
+
+function getMinAgeMinutes(request: NextRequest): number | null {
+  const value = request.nextUrl.searchParams.get("minAgeMinutes");
+  if (value === null) {
+    return DEFAULT_REAPER_MIN_AGE_MINUTES;
+  }
+  const minutes = Number(value);
+  return Number.isInteger(minutes) && minutes >= 0 ? minutes : null;
+}
+
+async function reap(request: NextRequest, dryRun: boolean) {
+  try {
+    const minAgeMinutes = getMinAgeMinutes(request);
+    if (minAgeMinutes === null) {
+      return NextResponse.json(
+        { error: "minAgeMinutes must be a whole number of minutes" },
+        { status: 400 }
+      );
+    }
+
+    const report = await reapOrphanedVoices({ dryRun, minAgeMinutes });
+    if (!report) {
+      return NextResponse.json(
+        { error: "Voice enhancement provider not configured" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    console.error("Voice reaper error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to reap orphaned voices.",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Dry-run report of the voices that would be deleted
+ */
+export async function GET(request: NextRequest) {
+  return reap(request, true);
+}
+
+/**
+ * Delete orphaned voices; pass ?dryRun=true to only report
+ */
+export async function POST(request: NextRequest) {
+  return reap(request, request.nextUrl.searchParams.get("dryRun") === "true");
+}
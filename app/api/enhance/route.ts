@@ -1,40 +1,89 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
+import { createJob } from "@/lib/jobs";
+import { runEnhancementJob } from "@/lib/enhancement-pipeline";
+import { getVoiceEnhancementProvider } from "@/lib/voice-enhancement";
 import {
-  cloneVoice,
-  generateEnhancedAudio,
-  deleteVoice,
-} from "@/lib/voice-enhancement";
+  getCampaign,
+  getCampaignPreset,
+  getCampaignScript,
+  getDefaultCampaign,
+} from "@/lib/campaigns";
+import { createConsentRecord, getClientIp } from "@/lib/consent";
+import { formatAudioProbe } from "@/lib/audio-probe";
+import { getSubmissionRepository } from "@/lib/submissions";
+import { formatRecordingQuality, parseRecordingQuality } from "@/lib/recording-quality";
 import {
-  uploadToS3,
-  generateS3Key,
-  generatePresignedUrl,
-  getFileSizeInMB,
-} from "@/lib/s3";
-import { sendSlackNotification } from "@/lib/slack";
+  DirectUploadError,
+  MAX_DIRECT_UPLOAD_SIZE,
+  discardDirectUpload,
+  finalizeDirectUpload,
+} from "@/lib/direct-upload";
+import { MultipartError, readMultipartUpload, type MultipartUpload } from "@/lib/multipart";
+import { RawAudioError, discardRawAudio, storeRawAudio } from "@/lib/raw-audio";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  claimSubmission,
+  parseIdempotencyKey,
+} from "@/lib/idempotency";
+import {
+  RateLimitExceededError,
+  acquireEnhancementSlot,
+  checkEmailRateLimits,
+  checkIpRateLimit,
+  rateLimitResponse,
+  releaseEnhancementSlot,
+} from "@/lib/rate-limit";
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB in bytes
-const ALLOWED_MIME_TYPES = [
-  "audio/mpeg",
-  "audio/wav",
-  "audio/x-wav",
-  "audio/mp4",
-  "audio/x-m4a",
-  "audio/ogg",
-  "audio/webm",
-  "video/mp4", // MP4 files are often identified as video/mp4
-];
+
+/**
+ * Direct uploads are cloned whole, so they can be no larger than the provider accepts
+ */
+function getMaxDirectUploadSize(): number {
+  const provider = getVoiceEnhancementProvider();
+  return provider
+    ? Math.min(MAX_DIRECT_UPLOAD_SIZE, provider.capabilities.maxSampleSize)
+    : MAX_DIRECT_UPLOAD_SIZE;
+}
+
+// The pipeline keeps running in after() once the response is sent
+export const maxDuration = 300;
 
 export async function POST(request: NextRequest) {
-  let clonedVoiceId: string | null = null;
-  let name: string = "";
-  let email: string = "";
+  let upload: MultipartUpload | undefined;
+  // Held for the run until it is queued; every other outcome gives them back in finally
+  let rawKey: string | undefined;
+  let leaseId: string | undefined;
+  let queued = false;
+  // A joined direct upload, dropped in finally once a queued run holds its copy; kept for retries otherwise
+  let stagedUploadId: string | undefined;
 
   try {
-    const formData = await request.formData();
-    name = formData.get("name") as string;
-    email = formData.get("email") as string;
-    const file = formData.get("file") as File;
-    const duration = parseFloat(formData.get("duration") as string);
+    const idempotencyKey = parseIdempotencyKey(request.headers.get(IDEMPOTENCY_KEY_HEADER));
+    if (idempotencyKey === null) {
+      return NextResponse.json(
+        { error: `Invalid ${IDEMPOTENCY_KEY_HEADER} header` },
+        { status: 400 }
+      );
+    }
+
+    // Turn floods away before reading the body
+    await checkIpRateLimit(getClientIp(request), "enhance");
+
+    // Fields are read up front; the file is streamed into storage once they check out
+    upload = await readMultipartUpload(request, "file");
+    const { fields, file } = upload;
+    const name = fields.name;
+    const email = fields.email;
+    // Set instead of file when the recording was sent straight to storage through /api/uploads
+    const uploadId = fields.uploadId || null;
+    const reportedDuration = parseFloat(fields.duration);
+    const scriptId = fields.scriptId || null;
+    const presetId = fields.presetId || null;
+    const campaignId = fields.campaignId || null;
+    const consentVersion = fields.consentVersion || null;
+    // Metrics from the page's own check of the take; graded again here
+    const recordingQuality = parseRecordingQuality(fields.quality);
 
     // Validate inputs
     if (!name || name.trim().length === 0) {
@@ -51,191 +100,189 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!file) {
+    if (!file && !uploadId) {
       return NextResponse.json(
         { error: "File is required" },
         { status: 400 }
       );
     }
 
-    // Validate file type
-    const baseMimeType = file.type.split(";")[0].trim();
-    if (!ALLOWED_MIME_TYPES.includes(baseMimeType)) {
+    // Older clients send neither id; they showed the default campaign and its script
+    const campaign = campaignId ? getCampaign(campaignId) : getDefaultCampaign();
+    if (!campaign) {
       return NextResponse.json(
-        {
-          error: "Invalid file type. Please upload .mp3, .wav, .mp4, .m4a, .ogg, or .webm files",
-        },
+        { error: "Unknown campaign" },
         { status: 400 }
       );
     }
 
-    // Validate file size
-    if (file.size > MAX_FILE_SIZE) {
+    if (!consentVersion) {
       return NextResponse.json(
-        { error: "File size exceeds 10MB limit" },
+        { error: "Consent is required before your voice can be processed" },
         { status: 400 }
       );
     }
 
-    // Validate duration is at least 1 minute (60 seconds)
-    if (!duration || duration < 60) {
+    const consent = createConsentRecord(request, consentVersion, campaign);
+    if (!consent) {
       return NextResponse.json(
-        { error: "Audio duration must be at least 1 minute (60 seconds)" },
+        { error: "The consent terms have changed. Please reload the page and try again." },
         { status: 400 }
       );
     }
 
-    // Convert file to buffer
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
+    const script = getCampaignScript(campaign, scriptId);
+    if (!script) {
+      return NextResponse.json(
+        { error: "Unknown script" },
+        { status: 400 }
+      );
+    }
 
-    // Step 1: Upload raw audio to S3 FIRST (before any ElevenLabs operations)
-    const voiceName = `ces-demo-${name.replace(/\s+/g, "-")}-${Date.now()}`;
-    const rawFileName = `raw-${voiceName}.${file.name.split('.').pop()}`;
-    const rawS3Key = generateS3Key(rawFileName, name);
+    const preset = getCampaignPreset(campaign, presetId);
+    if (!preset) {
+      return NextResponse.json(
+        { error: "Unknown enhancement preset" },
+        { status: 400 }
+      );
+    }
 
-    await uploadToS3(
-      buffer,
-      rawS3Key,
-      baseMimeType,
-      rawFileName
-    );
-    console.log("Raw audio uploaded to S3");
-
-    const rawDownloadUrl = await generatePresignedUrl(rawS3Key, rawFileName);
-    const rawFileSizeInMB = getFileSizeInMB(file.size);
-
-    const timestamp = new Date().toLocaleString("en-US", {
-      dateStyle: "medium",
-      timeStyle: "short",
-    });
-
-    // Variables for enhanced audio (may remain null if enhancement fails)
-    let enhancedDownloadUrl: string | undefined;
-    let enhancedFileName: string | undefined;
-    let enhancedFileSizeInMB: string | undefined;
-    let enhancedDuration: number | undefined;
-    let enhancementError: string | undefined;
-
-    // Step 2: Try ElevenLabs AI enhancement (Clone + Generate)
-    if (process.env.ELEVENLABS_API_KEY) {
-      try {
-        console.log("Cloning voice:", voiceName);
-        console.log("API Key present:", !!process.env.ELEVENLABS_API_KEY);
-        clonedVoiceId = await cloneVoice(buffer, voiceName);
-        console.log("Voice cloned successfully. ID:", clonedVoiceId);
-
-        console.log("Generating enhanced audio with voice remix...");
-        const enhancedResult = await generateEnhancedAudio(clonedVoiceId);
-        enhancedDuration = enhancedResult.duration;
-        console.log("Enhanced audio generated successfully. Duration:", enhancedDuration, "seconds");
-
-        // Upload enhanced audio to S3
-        enhancedFileName = `enhanced-${voiceName}.mp3`;
-        const enhancedS3Key = generateS3Key(enhancedFileName, name);
-
-        await uploadToS3(
-          enhancedResult.buffer,
-          enhancedS3Key,
-          "audio/mpeg",
-          enhancedFileName
-        );
-        console.log("Enhanced audio uploaded to S3");
-
-        // Generate presigned URL for enhanced audio
-        enhancedDownloadUrl = await generatePresignedUrl(enhancedS3Key, enhancedFileName);
-        enhancedFileSizeInMB = getFileSizeInMB(enhancedResult.buffer.length);
-
-        console.log("AI enhancement completed successfully");
-      } catch (enhanceError) {
-        const errorMessage = enhanceError instanceof Error ? enhanceError.message : "Unknown error";
-        enhancementError = `ElevenLabs Error: ${errorMessage}`;
-        console.error("AI enhancement failed, but raw audio is available:", enhanceError);
-        // Continue to send notification with raw audio only
-      }
-    } else {
-      enhancementError = "ElevenLabs API key not configured";
-      console.warn("ElevenLabs API key not configured - skipping AI enhancement");
-    }
-
-    // Step 3: Send Slack notification (ALWAYS send, even if enhancement failed)
-    await sendSlackNotification({
-      userName: name,
-      userEmail: email,
-      duration: enhancedDuration || duration,
-      timestamp,
-      rawDownloadUrl: rawDownloadUrl,
-      rawFileSize: rawFileSizeInMB,
-      rawDuration: duration,
-      enhancedDownloadUrl: enhancedDownloadUrl,
-      enhancedFileSize: enhancedFileSizeInMB,
-      enhancedDuration: enhancedDuration,
-      error: enhancementError, // Include error in Slack message if present
-    });
-
-    if (enhancedDownloadUrl) {
-      console.log("Slack notification sent with both raw and enhanced audio");
-    } else {
-      console.log("Slack notification sent with raw audio only (enhancement failed)");
-    }
-
-    // Step 7: Cleanup - delete cloned voice
-    if (clonedVoiceId) {
-      await deleteVoice(clonedVoiceId);
-      console.log("Cloned voice deleted successfully");
-    }
-
-    return NextResponse.json({
-      success: true,
-      message: enhancedDownloadUrl
-        ? "Recording submitted successfully! AI voice model created."
-        : "Recording submitted successfully! Your audio has been saved.",
-      data: {
-        rawDownloadUrl: rawDownloadUrl,
-        rawFileName: rawFileName,
-        rawFileSize: rawFileSizeInMB,
-        enhancedDownloadUrl: enhancedDownloadUrl,
-        enhancedFileName: enhancedFileName,
-        enhancedFileSize: enhancedFileSizeInMB,
-        duration: enhancedDuration || duration,
-        voiceId: clonedVoiceId,
-      },
-    });
-  } catch (error) {
-    console.error("Critical error in audio processing:", error);
-
-    // Cleanup on error
-    if (clonedVoiceId) {
-      try {
-        await deleteVoice(clonedVoiceId);
-        console.log("Cleaned up cloned voice on error");
-      } catch (cleanupError) {
-        console.error("Failed to cleanup voice:", cleanupError);
+    if (recordingQuality?.verdict === "fail") {
+      return NextResponse.json(
+        {
+          error:
+            recordingQuality.issues.find((issue) => issue.verdict === "fail")?.message ||
+            "The recording did not pass the quality check. Please record again.",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Taken before anything is stored, so a request turned away here leaves no recording behind
+    leaseId = await acquireEnhancementSlot();
+
+    // Join a direct upload and copy it into place, or stream the file from the body (limited to 10MB) into storage
+    const stagedKey = uploadId ? await finalizeDirectUpload(uploadId) : null;
+    const raw = await storeRawAudio(
+      stagedKey ? { stagedKey } : file!.stream,
+      {
+        campaign,
+        name,
+        fileBaseName: `raw-${campaign.voiceNamePrefix}${name.replace(/\s+/g, "-")}-${Date.now()}`,
+        maxSize: uploadId ? getMaxDirectUploadSize() : MAX_FILE_SIZE,
+        consent,
       }
+    );
+    rawKey = raw.key;
+    const { audioType, probe, contentHash } = raw;
+
+    if (Math.abs(probe.duration - reportedDuration) > 2) {
+      console.warn(
+        `Reported duration ${reportedDuration}s differs from measured ${probe.duration.toFixed(1)}s`
+      );
     }
+    console.log(
+      `Recording quality: ${recordingQuality ? formatRecordingQuality(recordingQuality) : "not reported"}`
+    );
 
-    // Try to send error notification to Slack (only if we have name and email)
-    if (name && email) {
-      try {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        await sendSlackNotification({
-          userName: name,
-          userEmail: email,
-          duration: 0,
-          timestamp: new Date().toLocaleString("en-US", {
-            dateStyle: "medium",
-            timeStyle: "short",
-          }),
-          error: `Critical Error: ${errorMessage}`,
+    // A retried or double-clicked submit gets the original run instead of a second clone.
+    // Takes sent to /api/upload only were stored, never enhanced, so they don't count.
+    const claim = await claimSubmission(
+      { idempotencyKey, contentHash, source: "enhance" },
+      async () => {
+        // Only a new run counts against the email's limits; a replay is free
+        await checkEmailRateLimits(email);
+        const job = await createJob({ name, email }, campaign.id);
+        return getSubmissionRepository().create({
+          source: "enhance",
+          jobId: job.id,
+          participant: { name, email },
+          campaignId: campaign.id,
+          scriptId: script.id,
+          presetId: preset.id,
+          consent,
+          idempotencyKey,
+          contentHash,
+          rawDuration: probe.duration,
+          rawAudioFormat: formatAudioProbe(probe),
+          rawKey: raw.key,
+          rawFileName: raw.fileName,
+          recordingQuality: recordingQuality || undefined,
         });
-        console.log("Error notification sent to Slack");
-      } catch (slackError) {
-        console.error("Failed to send error notification to Slack:", slackError);
       }
-    } else {
-      console.error("Cannot send Slack notification - name or email missing");
+    );
+
+    if (claim.outcome === "created") {
+      // Queue the pipeline and return straight away; clients poll /api/jobs/[id]
+      const { submission } = claim;
+      const lease = leaseId;
+      queued = true;
+      stagedUploadId = uploadId || undefined;
+      after(async () => {
+        try {
+          await runEnhancementJob(submission.jobId!, {
+            name,
+            email,
+            raw: { key: raw.key, fileName: raw.fileName, size: raw.size },
+            audioType,
+            probe,
+            script,
+            preset,
+            campaign,
+            consent,
+            recordingQuality: recordingQuality || undefined,
+            submissionId: submission.id,
+          });
+        } finally {
+          await releaseEnhancementSlot(lease);
+        }
+      });
+    }
+
+    const { submission } = claim;
+    if (claim.outcome === "conflict") {
+      return NextResponse.json(
+        { error: `${IDEMPOTENCY_KEY_HEADER} was already used for a different recording` },
+        { status: 422 }
+      );
+    }
+
+    const replayed = claim.outcome === "replayed";
+    if (replayed) {
+      console.log(`Duplicate submission for ${submission.id}; returning job ${submission.jobId}`);
     }
 
+    return NextResponse.json(
+      {
+        success: true,
+        message: replayed
+          ? "Recording already received. Returning the original submission."
+          : "Recording received. Processing has started.",
+        data: {
+          jobId: submission.jobId,
+          submissionId: submission.id,
+          statusUrl: `/api/jobs/${submission.jobId}`,
+        },
+      },
+      {
+        status: replayed ? 200 : 202,
+        headers: replayed ? { "Idempotent-Replayed": "true" } : undefined,
+      }
+    );
+  } catch (error) {
+    if (error instanceof RateLimitExceededError) {
+      return rateLimitResponse(error);
+    }
+    if (
+      error instanceof DirectUploadError ||
+      error instanceof RawAudioError ||
+      error instanceof MultipartError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to queue audio processing:", error);
+
     return NextResponse.json(
       {
         error: "Failed to process audio. Please try again.",
@@ -243,5 +290,28 @@ export async function POST(request: NextRequest) {
       },
       { status: 500 }
     );
+  } finally {
+    // Stops reading a body that was turned away before its file was consumed
+    upload?.abort();
+
+    if (stagedUploadId) {
+      await discardDirectUpload(stagedUploadId).catch((error) => {
+        console.error(`Failed to discard direct upload ${stagedUploadId}:`, error);
+      });
+    }
+
+    // Nothing was queued: a duplicate, a conflict or an error keeps no audio and holds no slot
+    if (!queued) {
+      if (rawKey) {
+        await discardRawAudio(rawKey).catch((error) => {
+          console.error(`Failed to discard raw audio ${rawKey}:`, error);
+        });
+      }
+      if (leaseId) {
+        await releaseEnhancementSlot(leaseId).catch((error) => {
+          console.error("Failed to release enhancement slot:", error);
+        });
+      }
+    }
   }
 }
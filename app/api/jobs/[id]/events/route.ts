@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob } from "@/lib/jobs";
+import {
+  subscribeToPipelineEvents,
+  TERMINAL_EVENT_TYPES,
+  type PipelineEvent,
+} from "@/lib/pipeline-events";
+
+export const dynamic = "force-dynamic";
+
+// Re-read the job periodically in case the pipeline runs in another process
+const JOB_RELOAD_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Stream a job's pipeline events as Server-Sent Events.
+ * Replays events already recorded (after Last-Event-ID when reconnecting), then follows live ones.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = await getJob(id);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: "Job not found" },
+      { status: 404 }
+    );
+  }
+
+  const lastEventId = parseInt(request.headers.get("last-event-id") || "0", 10) || 0;
+  const encoder = new TextEncoder();
+  // Set once the stream starts; also called when the client goes away and the stream is cancelled
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let lastSeq = lastEventId;
+      let closed = false;
+
+      close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(reloadTimer);
+        clearInterval(heartbeatTimer);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancel from the reader
+        }
+      };
+
+      const send = (event: PipelineEvent) => {
+        if (closed || event.seq <= lastSeq) return;
+        lastSeq = event.seq;
+        controller.enqueue(
+          encoder.encode(`id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+        );
+        if (TERMINAL_EVENT_TYPES.includes(event.type)) {
+          close();
+        }
+      };
+
+      const unsubscribe = subscribeToPipelineEvents(id, send);
+
+      const reloadTimer = setInterval(async () => {
+        try {
+          const latest = await getJob(id);
+          latest?.events.forEach(send);
+        } catch (error) {
+          console.error("Failed to reload job for event stream:", error);
+        }
+      }, JOB_RELOAD_INTERVAL_MS);
+
+      const heartbeatTimer = setInterval(() => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(": heartbeat\n\n"));
+        }
+      }, HEARTBEAT_INTERVAL_MS);
+
+      request.signal.addEventListener("abort", close);
+
+      job.events.forEach(send);
+
+      // Nothing more will arrive for a finished job the client has fully seen
+      if (job.status === "completed" || job.status === "failed") {
+        close();
+      }
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
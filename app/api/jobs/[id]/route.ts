@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob } from "@/lib/jobs";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    // The job id is the only credential, so the download links are left to the participant email
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: job.id,
+        status: job.status,
+        stage: job.stage,
+        progress: job.progress,
+        error: job.error,
+      },
+    });
+  } catch (error) {
+    console.error("Job status error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load job status.",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import {
+  handleSlackInteraction,
+  parseSlackInteraction,
+  verifySlackSignature,
+} from "@/lib/slack-interactions";
+
+// Not behind the admin basic auth: Slack signs every request with SLACK_SIGNING_SECRET instead
+
+// A Reprocess click runs the enhancement pipeline in after(), so it gets the enhance route's budget
+export const maxDuration = 300;
+
+/**
+ * Slack interactivity request URL for the review buttons on submission messages.
+ * Acknowledges straight away; Slack gives up after three seconds.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.SLACK_SIGNING_SECRET;
+    if (!secret) {
+      return NextResponse.json(
+        { error: "Slack interactivity is not configured" },
+        { status: 503 }
+      );
+    }
+
+    const rawBody = await request.text();
+    const verified = verifySlackSignature(
+      secret,
+      request.headers.get("x-slack-request-timestamp"),
+      rawBody,
+      request.headers.get("x-slack-signature")
+    );
+    if (!verified) {
+      return NextResponse.json({ error: "Invalid Slack signature" }, { status: 401 });
+    }
+
+    const payload = parseSlackInteraction(rawBody);
+    if (payload) {
+      after(() => handleSlackInteraction(payload));
+    }
+
+    return new NextResponse(null, { status: 200 });
+  } catch (error) {
+    console.error("Slack interaction error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to handle Slack interaction.",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
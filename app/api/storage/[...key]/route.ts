@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { getAttachmentDisposition, getLocalAudioStore } from "@/lib/storage";
+import { DIRECT_UPLOAD_PART_SIZE } from "@/lib/direct-upload";
+
+/**
+ * Serve objects from the local-disk storage driver through signed, expiring links
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  try {
+    const store = getLocalAudioStore();
+    if (!store) {
+      return NextResponse.json(
+        { error: "Not found" },
+        { status: 404 }
+      );
+    }
+
+    const { key: segments } = await params;
+    const key = segments.join("/");
+    const searchParams = request.nextUrl.searchParams;
+    const expires = parseInt(searchParams.get("expires") || "", 10);
+    const fileName = searchParams.get("filename") || "";
+    const signature = searchParams.get("signature") || "";
+
+    if (!store.verifySignature(key, expires, fileName, signature)) {
+      return NextResponse.json(
+        { error: "Link is invalid or has expired" },
+        { status: 403 }
+      );
+    }
+
+    const info = await store.getInfo(key);
+    const stream = info && (await store.getStream(key));
+    if (!info || !stream) {
+      return NextResponse.json(
+        { error: "Not found" },
+        { status: 404 }
+      );
+    }
+
+    // Sent as it is read from disk, so a large recording is never held in memory
+    const iterator = stream[Symbol.asyncIterator]();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const next = await iterator.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(next.value);
+        }
+      },
+      async cancel() {
+        await iterator.return?.();
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": info.contentType,
+        "Content-Length": info.size.toString(),
+        "Content-Disposition": getAttachmentDisposition(fileName),
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Storage download error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load file.",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Receive one part of a direct upload through a signed, expiring link from the local-disk driver
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  try {
+    const store = getLocalAudioStore();
+    if (!store) {
+      return NextResponse.json(
+        { error: "Not found" },
+        { status: 404 }
+      );
+    }
+
+    const { key: segments } = await params;
+    const key = segments.join("/");
+    const searchParams = request.nextUrl.searchParams;
+    const uploadId = searchParams.get("uploadId") || "";
+    const partNumber = parseInt(searchParams.get("partNumber") || "", 10);
+    const expires = parseInt(searchParams.get("expires") || "", 10);
+    const signature = searchParams.get("signature") || "";
+
+    if (!store.verifyPartSignature(key, uploadId, partNumber, expires, signature)) {
+      return NextResponse.json(
+        { error: "Link is invalid or has expired" },
+        { status: 403 }
+      );
+    }
+
+    const tooLarge = () =>
+      NextResponse.json(
+        { error: "Part is larger than the upload's part size" },
+        { status: 413 }
+      );
+    const declaredLength = parseInt(request.headers.get("content-length") || "", 10);
+    if (declaredLength > DIRECT_UPLOAD_PART_SIZE) {
+      return tooLarge();
+    }
+
+    // Streamed to disk and counted on the way, since a chunked body declares no length
+    let oversized = false;
+    async function* limited(): AsyncGenerator<Uint8Array> {
+      if (!request.body) {
+        return;
+      }
+      let size = 0;
+      for await (const chunk of Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>)) {
+        size += chunk.length;
+        if (size > DIRECT_UPLOAD_PART_SIZE) {
+          oversized = true;
+          throw new Error("Part is larger than the upload's part size");
+        }
+        yield chunk;
+      }
+    }
+
+    let etag: string;
+    try {
+      etag = await store.putPart(key, uploadId, partNumber, limited());
+    } catch (error) {
+      if (oversized) {
+        return tooLarge();
+      }
+      throw error;
+    }
+    return new Response(null, { status: 200, headers: { ETag: etag } });
+  } catch (error) {
+    console.error("Storage part upload error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to store part.",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,30 +1,42 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getAudioStore, getFileSizeInMB } from "@/lib/storage";
+import { notify, wasDelivered } from "@/lib/notifications";
+import { getCampaign, getCampaignScript, getDefaultCampaign } from "@/lib/campaigns";
+import { createConsentRecord, getClientIp } from "@/lib/consent";
+import { RateLimitExceededError, checkIpRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { formatAudioProbe } from "@/lib/audio-probe";
+import { getSubmissionRepository } from "@/lib/submissions";
 import {
-  uploadToS3,
-  generateS3Key,
-  generatePresignedUrl,
-  getFileSizeInMB,
-} from "@/lib/s3";
-import { sendSlackNotification } from "@/lib/slack";
+  DirectUploadError,
+  MAX_DIRECT_UPLOAD_SIZE,
+  discardDirectUpload,
+  finalizeDirectUpload,
+} from "@/lib/direct-upload";
+import { MultipartError, readMultipartUpload, type MultipartUpload } from "@/lib/multipart";
+import { RawAudioError, storeRawAudio } from "@/lib/raw-audio";
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB in bytes
-const ALLOWED_MIME_TYPES = [
-  "audio/mpeg", // .mp3
-  "audio/wav", // .wav
-  "audio/x-wav", // .wav (alternative)
-  "audio/mp4", // .m4a
-  "audio/x-m4a", // .m4a (alternative)
-  "audio/ogg", // .ogg
-  "audio/webm", // .webm (browser recordings)
-  "video/mp4", // .mp4 files are often identified as video/mp4
-];
 
 export async function POST(request: NextRequest) {
+  const submissions = getSubmissionRepository();
+  let submissionId: string | undefined;
+  let upload: MultipartUpload | undefined;
+  // A joined direct upload, dropped in finally once its recording is stored; kept for retries otherwise
+  let stagedUploadId: string | undefined;
+
   try {
-    const formData = await request.formData();
-    const name = formData.get("name") as string;
-    const file = formData.get("file") as File;
-    const duration = parseFloat(formData.get("duration") as string);
+    await checkIpRateLimit(getClientIp(request), "upload");
+
+    // Fields are read up front; the file is streamed into storage once they check out
+    upload = await readMultipartUpload(request, "file");
+    const { fields, file } = upload;
+    const name = fields.name;
+    // Set instead of file when the recording was sent straight to storage through /api/uploads
+    const uploadId = fields.uploadId || null;
+    const reportedDuration = parseFloat(fields.duration);
+    const scriptId = fields.scriptId || null;
+    const campaignId = fields.campaignId || null;
+    const consentVersion = fields.consentVersion || null;
 
     // Validate inputs
     if (!name || name.trim().length === 0) {
@@ -34,83 +46,149 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!file) {
+    if (!file && !uploadId) {
       return NextResponse.json(
         { error: "File is required" },
         { status: 400 }
       );
     }
 
-    // Validate file type (check base MIME type, ignoring codecs)
-    const baseMimeType = file.type.split(";")[0].trim();
-    if (!ALLOWED_MIME_TYPES.includes(baseMimeType)) {
+    // Older clients send neither id; they showed the default campaign and its script
+    const campaign = campaignId ? getCampaign(campaignId) : getDefaultCampaign();
+    if (!campaign) {
+      return NextResponse.json(
+        { error: "Unknown campaign" },
+        { status: 400 }
+      );
+    }
+
+    if (!consentVersion) {
       return NextResponse.json(
-        {
-          error: "Invalid file type. Please upload .mp3, .wav, .mp4, .m4a, .ogg, or .webm files",
-        },
+        { error: "Consent is required before your voice can be processed" },
         { status: 400 }
       );
     }
 
-    // Validate file size
-    if (file.size > MAX_FILE_SIZE) {
+    const consent = createConsentRecord(request, consentVersion, campaign);
+    if (!consent) {
       return NextResponse.json(
-        { error: "File size exceeds 10MB limit" },
+        { error: "The consent terms have changed. Please reload the page and try again." },
         { status: 400 }
       );
     }
 
-    // Validate duration is at least 1 minute (60 seconds)
-    if (!duration || duration < 60) {
+    const script = getCampaignScript(campaign, scriptId);
+    if (!script) {
       return NextResponse.json(
-        { error: "Audio duration must be at least 1 minute (60 seconds)" },
+        { error: "Unknown script" },
         { status: 400 }
       );
     }
 
-    // Convert file to buffer
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
+    // Join a direct upload and copy it into place, or stream the file from the body (limited to 10MB) into storage.
+    // The original name is kept with the extension of the detected type.
+    const stagedKey = uploadId ? await finalizeDirectUpload(uploadId) : null;
+    const raw = await storeRawAudio(
+      stagedKey ? { stagedKey } : file!.stream,
+      {
+        campaign,
+        name,
+        fileBaseName: (file?.fileName || "recording").replace(/\.[^.]*$/, ""),
+        maxSize: uploadId ? MAX_DIRECT_UPLOAD_SIZE : MAX_FILE_SIZE,
+        consent,
+      }
+    );
+    stagedUploadId = uploadId || undefined;
+    const { probe, fileName } = raw;
+
+    if (Math.abs(probe.duration - reportedDuration) > 2) {
+      console.warn(
+        `Reported duration ${reportedDuration}s differs from measured ${probe.duration.toFixed(1)}s`
+      );
+    }
 
-    // Generate S3 key
-    const s3Key = generateS3Key(file.name, name);
+    const submission = await submissions.create({
+      source: "upload",
+      participant: { name },
+      campaignId: campaign.id,
+      scriptId: script.id,
+      consent,
+      rawDuration: probe.duration,
+      rawAudioFormat: formatAudioProbe(probe),
+    });
+    submissionId = submission.id;
 
-    // Upload to S3 with Content-Disposition header
-    await uploadToS3(buffer, s3Key, file.type, file.name);
+    const store = getAudioStore();
+    await submissions.markStage(submissionId, "raw_stored", { rawKey: raw.key, rawFileName: fileName });
 
-    // Generate presigned URL with forced download
-    const downloadUrl = await generatePresignedUrl(s3Key, file.name);
+    // Generate signed URL with forced download
+    const downloadUrl = await store.getSignedUrl(raw.key, fileName);
 
     // Get file size in MB
-    const fileSizeInMB = getFileSizeInMB(file.size);
+    const fileSizeInMB = getFileSizeInMB(raw.size);
 
-    // Send Slack notification
+    // Notify the team; the file is stored, so a failing channel must not fail the upload
     const timestamp = new Date().toLocaleString("en-US", {
       dateStyle: "medium",
       timeStyle: "short",
     });
 
-    await sendSlackNotification({
-      userName: name,
-      downloadUrl,
-      fileSize: fileSizeInMB,
-      duration,
+    const notified = await notify({
+      type: "upload_received",
+      submissionId,
+      campaign,
+      participant: { name },
       timestamp,
-      audioType: "raw",
+      script: { id: script.id, title: script.title },
+      consent,
+      raw: {
+        url: downloadUrl,
+        fileSize: fileSizeInMB,
+        duration: probe.duration,
+        format: formatAudioProbe(probe),
+      },
     });
+    if (wasDelivered(notified)) {
+      await submissions.markStage(submissionId, "notified");
+    }
+    await submissions.markStage(submissionId, "finished", { status: "raw_only" });
 
     return NextResponse.json({
       success: true,
       message: "File uploaded successfully",
       data: {
         downloadUrl,
-        fileName: file.name,
+        fileName,
         fileSize: fileSizeInMB,
-        duration,
+        duration: probe.duration,
+        submissionId,
       },
     });
   } catch (error) {
+    if (error instanceof RateLimitExceededError) {
+      return rateLimitResponse(error);
+    }
+    if (
+      error instanceof DirectUploadError ||
+      error instanceof RawAudioError ||
+      error instanceof MultipartError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     console.error("Upload error:", error);
+
+    if (submissionId) {
+      try {
+        await submissions.markStage(submissionId, "finished", {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      } catch (submissionError) {
+        console.error("Failed to record submission failure:", submissionError);
+      }
+    }
+
     return NextResponse.json(
       {
         error: "Failed to upload file. Please try again.",
@@ -118,5 +196,14 @@ export async function POST(request: NextRequest) {
       },
       { status: 500 }
     );
+  } finally {
+    // Stops reading a body that was turned away before its file was consumed
+    upload?.abort();
+
+    if (stagedUploadId) {
+      await discardDirectUpload(stagedUploadId).catch((error) => {
+        console.error(`Failed to discard direct upload ${stagedUploadId}:`, error);
+      });
+    }
   }
 }
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DirectUploadError,
+  discardDirectUpload,
+  getDirectUploadProgress,
+} from "@/lib/direct-upload";
+
+/**
+ * Which parts have arrived, with fresh signed links for the rest; clients call this to resume
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { upload, uploadedParts, parts } = await getDirectUploadProgress(id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: upload.id,
+        status: upload.status,
+        partSize: upload.partSize,
+        partCount: upload.partCount,
+        expiresAt: upload.expiresAt,
+        uploadedParts,
+        parts,
+      },
+    });
+  } catch (error) {
+    if (error instanceof DirectUploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Direct upload status error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load upload.",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Abandon an upload and drop whatever parts were sent
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!(await discardDirectUpload(id))) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Direct upload discard error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to discard upload.",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DirectUploadError, createDirectUpload } from "@/lib/direct-upload";
+import { getClientIp } from "@/lib/consent";
+import { RateLimitExceededError, checkIpRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+
+/**
+ * Start a direct-to-storage upload; the body is { size, contentType }.
+ * The browser PUTs each part to its signed link, then finalizes by sending the returned id
+ * as `uploadId` to /api/enhance or /api/upload instead of a file.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await checkIpRateLimit(getClientIp(request), "uploads");
+
+    const body = await request.json().catch(() => null);
+    const { upload, parts } = await createDirectUpload(
+      Number(body?.size),
+      typeof body?.contentType === "string" ? body.contentType : ""
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: upload.id,
+          partSize: upload.partSize,
+          partCount: upload.partCount,
+          expiresAt: upload.expiresAt,
+          uploadedParts: [],
+          parts,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof RateLimitExceededError) {
+      return rateLimitResponse(error);
+    }
+    if (error instanceof DirectUploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Direct upload error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to start upload. Please try again.",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -13,8 +13,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Mirage - Voice Modulation Demo CES 2026",
-  description: "Record your voice for AI-powered voice modulation demo at CES 2026",
+  title: "Mirage - Voice Modulation Demo",
+  description: "Record your voice for AI-powered voice modulation demo",
   icons: {
     icon: [
       { url: '/favicon.ico' },
@@ -1,5 +1,51 @@
+import type { Metadata } from "next";
 import { AudioUpload } from "@/components/audio-upload";
+import {
+  getCampaign,
+  getCampaignPreset,
+  getCampaignRecorder,
+  getCampaignScript,
+  getDefaultCampaign,
+} from "@/lib/campaigns";
+import { getScript } from "@/lib/scripts";
+import { getEnhancementPreset } from "@/lib/enhancement-presets";
+import { CURRENT_CONSENT_TERMS, formatConsentText } from "@/lib/consent";
 
-export default function Home() {
-  return <AudioUpload />;
+type SearchParams = Promise<{ campaign?: string; script?: string; preset?: string }>;
+
+export async function generateMetadata({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}): Promise<Metadata> {
+  const { campaign: campaignId } = await searchParams;
+  const campaign = getCampaign(campaignId) || getDefaultCampaign();
+
+  return {
+    title: `Mirage - Voice Modulation Demo ${campaign.eventName}`,
+    description: `Record your voice for AI-powered voice modulation demo at ${campaign.eventName}`,
+  };
+}
+
+export default async function Home({ searchParams }: { searchParams: SearchParams }) {
+  const { campaign: campaignId, script: scriptId, preset: presetId } = await searchParams;
+  const campaign = getCampaign(campaignId) || getDefaultCampaign();
+  const script = getCampaignScript(campaign, scriptId) || getScript(campaign.scriptId)!;
+  const preset =
+    getCampaignPreset(campaign, presetId) || getEnhancementPreset(campaign.presetId)!;
+
+  const consent = {
+    version: CURRENT_CONSENT_TERMS.version,
+    text: formatConsentText(CURRENT_CONSENT_TERMS, campaign),
+  };
+
+  return (
+    <AudioUpload
+      campaign={campaign}
+      script={script}
+      presetId={preset.id}
+      consent={consent}
+      recorder={getCampaignRecorder(campaign)}
+    />
+  );
 }
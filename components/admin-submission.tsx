@@ -0,0 +1,46 @@
+import { cn } from "@/lib/utils";
+import { SUBMISSION_STATUS_LABELS } from "@/lib/admin";
+import type { SubmissionStatus } from "@/lib/submissions";
+
+const STATUS_STYLES: Record<SubmissionStatus, string> = {
+  processing: "bg-neutral-100 text-neutral-700",
+  enhanced: "bg-black text-white",
+  raw_only: "bg-amber-100 text-amber-800",
+  failed: "bg-red-100 text-red-700",
+};
+
+export function SubmissionStatusBadge({ status }: { status: SubmissionStatus }) {
+  return (
+    <span className={cn("inline-block rounded-full px-3 py-1 text-xs", STATUS_STYLES[status])}>
+      {SUBMISSION_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+interface SubmissionPlayersProps {
+  rawUrl?: string;
+  enhancedUrl?: string;
+}
+
+/**
+ * Raw and enhanced recordings side by side so operators can compare them
+ */
+export function SubmissionPlayers({ rawUrl, enhancedUrl }: SubmissionPlayersProps) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      {[
+        { label: "Raw", url: rawUrl },
+        { label: "Enhanced", url: enhancedUrl },
+      ].map(({ label, url }) => (
+        <div key={label} className="space-y-1">
+          <p className="text-xs text-neutral-500">{label}</p>
+          {url ? (
+            <audio controls preload="none" src={url} className="h-8 w-full" />
+          ) : (
+            <p className="text-xs text-neutral-400">Not available</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
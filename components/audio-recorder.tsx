@@ -3,20 +3,50 @@
 import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  pickMediaRecorderType,
+  resolveRecorderEngine,
+  startPcmCapture,
+  type PcmCapture,
+  type RecorderSettings,
+} from "@/lib/pcm-capture";
+import {
+  AUTO_PAUSE_SECONDS,
+  startInputLevelMonitor,
+  type InputLevelMonitor,
+  type InputLevelReport,
+  type InputWarning,
+} from "@/lib/input-level";
+
+const INPUT_WARNINGS: Record<InputWarning, string> = {
+  clipping: "Your voice is distorting. Move a little further from the microphone or speak more softly.",
+  silence: "We can't hear you. Check that your microphone is connected and not muted.",
+  noisy: "There is a lot of background noise. Move somewhere quieter if you can.",
+};
 
 interface AudioRecorderProps {
   onRecordingComplete: (audioBlob: Blob, duration: number) => void;
+  /** Capture engine; MediaRecorder unless configured otherwise, with the other used as a fallback */
+  settings?: RecorderSettings;
 }
 
-export function AudioRecorder({ onRecordingComplete }: AudioRecorderProps) {
+export function AudioRecorder({
+  onRecordingComplete,
+  settings = { engine: "media-recorder" },
+}: AudioRecorderProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [error, setError] = useState("");
   const [hasRecording, setHasRecording] = useState(false);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [inputLevel, setInputLevel] = useState<InputLevelReport | null>(null);
+  const [autoPaused, setAutoPaused] = useState(false);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const pcmCaptureRef = useRef<PcmCapture | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const levelMonitorRef = useRef<InputLevelMonitor | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const startTimeRef = useRef<number>(0);
@@ -39,6 +69,52 @@ export function AudioRecorder({ onRecordingComplete }: AudioRecorderProps) {
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
+  const stopLevelMonitor = () => {
+    levelMonitorRef.current?.stop();
+    levelMonitorRef.current = null;
+    setInputLevel(null);
+    setAutoPaused(false);
+  };
+
+  // Only touches refs and state setters, so the level monitor can call it from the render that started it
+  const pauseCapture = () => {
+    mediaRecorderRef.current?.pause();
+    pcmCaptureRef.current?.pause();
+    levelMonitorRef.current?.pause();
+    setIsPaused(true);
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+    }
+  };
+
+  const handleInputLevel = (report: InputLevelReport) => {
+    setInputLevel(report);
+    // A dead or muted mic would otherwise fill the take with silence
+    if (report.autoPause) {
+      setAutoPaused(true);
+      pauseCapture();
+    }
+  };
+
+  const finishRecording = (blob: Blob, finalDuration: number) => {
+    const url = URL.createObjectURL(blob);
+    setAudioUrl(url);
+    setHasRecording(true);
+
+    // Stop all tracks
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+
+    // Check if recording meets minimum duration
+    if (finalDuration < 60) {
+      setError("Recording must be at least 1 minute long");
+    } else {
+      // Pass the recording to parent component
+      setError(""); // Clear any previous errors
+      onRecordingComplete(blob, finalDuration);
+    }
+  };
+
   const startRecording = async () => {
     try {
       setError("");
@@ -48,52 +124,46 @@ export function AudioRecorder({ onRecordingComplete }: AudioRecorderProps) {
         setAudioUrl(null);
       }
 
+      const engine = resolveRecorderEngine(settings.engine);
+      if (!engine) {
+        setError("This browser cannot record audio. Please try a recent version of Chrome, Safari, or Firefox.");
+        return;
+      }
+
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
 
-      // Prefer MP4 (M4A) for better compatibility with Mac/iOS
-      let mimeType = "audio/webm"; // fallback
-      if (MediaRecorder.isTypeSupported("audio/mp4")) {
-        mimeType = "audio/mp4";
-      } else if (MediaRecorder.isTypeSupported("audio/webm;codecs=opus")) {
-        mimeType = "audio/webm;codecs=opus";
-      } else if (MediaRecorder.isTypeSupported("audio/webm")) {
-        mimeType = "audio/webm";
-      }
+      if (engine === "pcm") {
+        try {
+          pcmCaptureRef.current = await startPcmCapture(stream, settings.sampleRate);
+        } catch (captureError) {
+          stream.getTracks().forEach((track) => track.stop());
+          throw captureError;
+        }
+      } else {
+        const mediaRecorder = new MediaRecorder(stream, {
+          mimeType: pickMediaRecorderType() || "audio/webm",
+        });
 
-      const mediaRecorder = new MediaRecorder(stream, { mimeType });
+        chunksRef.current = [];
 
-      chunksRef.current = [];
+        mediaRecorder.ondataavailable = (event) => {
+          if (event.data.size > 0) {
+            chunksRef.current.push(event.data);
+          }
+        };
 
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          chunksRef.current.push(event.data);
-        }
-      };
-
-      mediaRecorder.onstop = () => {
-        // Calculate final duration from timestamps
-        const finalDuration = Math.floor((Date.now() - startTimeRef.current - pausedTimeRef.current) / 1000);
-
-        const blob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType });
-        const url = URL.createObjectURL(blob);
-        setAudioUrl(url);
-        setHasRecording(true);
-
-        // Stop all tracks
-        stream.getTracks().forEach((track) => track.stop());
-
-        // Check if recording meets minimum duration
-        if (finalDuration < 60) {
-          setError("Recording must be at least 1 minute long");
-        } else {
-          // Pass the recording to parent component
-          setError(""); // Clear any previous errors
-          onRecordingComplete(blob, finalDuration);
-        }
-      };
+        mediaRecorder.onstop = () => {
+          // Calculate final duration from timestamps
+          const finalDuration = Math.floor((Date.now() - startTimeRef.current - pausedTimeRef.current) / 1000);
+          finishRecording(new Blob(chunksRef.current, { type: mediaRecorder.mimeType }), finalDuration);
+        };
 
-      mediaRecorderRef.current = mediaRecorder;
-      mediaRecorder.start();
+        mediaRecorderRef.current = mediaRecorder;
+        mediaRecorder.start();
+      }
+
+      levelMonitorRef.current = startInputLevelMonitor(stream, handleInputLevel);
       setIsRecording(true);
       setIsPaused(false);
       startTimeRef.current = Date.now();
@@ -114,19 +184,18 @@ export function AudioRecorder({ onRecordingComplete }: AudioRecorderProps) {
   };
 
   const pauseRecording = () => {
-    if (mediaRecorderRef.current && isRecording && !isPaused) {
-      mediaRecorderRef.current.pause();
-      setIsPaused(true);
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
+    if ((mediaRecorderRef.current || pcmCaptureRef.current) && isRecording && !isPaused) {
+      pauseCapture();
     }
   };
 
   const resumeRecording = () => {
-    if (mediaRecorderRef.current && isRecording && isPaused) {
-      mediaRecorderRef.current.resume();
+    if ((mediaRecorderRef.current || pcmCaptureRef.current) && isRecording && isPaused) {
+      mediaRecorderRef.current?.resume();
+      pcmCaptureRef.current?.resume();
+      levelMonitorRef.current?.resume();
       setIsPaused(false);
+      setAutoPaused(false);
 
       const pauseDuration = Date.now() - startTimeRef.current - pausedTimeRef.current - recordingTime * 1000;
       pausedTimeRef.current += pauseDuration;
@@ -138,23 +207,49 @@ export function AudioRecorder({ onRecordingComplete }: AudioRecorderProps) {
     }
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
+  const stopRecording = async () => {
+    if ((mediaRecorderRef.current || pcmCaptureRef.current) && isRecording) {
       setIsRecording(false);
       setIsPaused(false);
+      stopLevelMonitor();
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
+
+      if (mediaRecorderRef.current) {
+        mediaRecorderRef.current.stop();
+        return;
+      }
+
+      const capture = pcmCaptureRef.current!;
+      pcmCaptureRef.current = null;
+      try {
+        // Counted from the samples themselves, so it matches what the server measures
+        const { blob, duration } = await capture.stop();
+        finishRecording(blob, Math.floor(duration));
+      } catch (err) {
+        streamRef.current?.getTracks().forEach((track) => track.stop());
+        streamRef.current = null;
+        setError(err instanceof Error ? err.message : "Failed to save the recording. Please try again.");
+      }
     }
   };
 
   const cancelRecording = () => {
     if (mediaRecorderRef.current) {
       const stream = mediaRecorderRef.current.stream;
+      mediaRecorderRef.current.onstop = null;
       mediaRecorderRef.current.stop();
       stream.getTracks().forEach((track) => track.stop());
+      mediaRecorderRef.current = null;
     }
+    if (pcmCaptureRef.current) {
+      pcmCaptureRef.current.cancel();
+      pcmCaptureRef.current = null;
+    }
+    stopLevelMonitor();
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
     setIsRecording(false);
     setIsPaused(false);
     setRecordingTime(0);
@@ -185,6 +280,11 @@ export function AudioRecorder({ onRecordingComplete }: AudioRecorderProps) {
           <p className="text-sm text-neutral-600 text-center">
           The recording must be at least one minute long.<br/> For optimal results, please find a quiet location.
           </p>
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
         </div>
       )}
 
@@ -196,6 +296,29 @@ export function AudioRecorder({ onRecordingComplete }: AudioRecorderProps) {
             {formatTime(recordingTime)}
           </div>
 
+          {/* Input Level Meter */}
+          {inputLevel && (
+            <div
+              role="meter"
+              aria-label="Microphone level"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(inputLevel.meter * 100)}
+              className="h-2 w-full max-w-xs rounded-full bg-neutral-200 overflow-hidden"
+            >
+              <div
+                className={`h-full transition-[width] duration-75 ${
+                  inputLevel.peakDb >= -1
+                    ? "bg-red-500"
+                    : inputLevel.meter > 0.85
+                      ? "bg-amber-400"
+                      : "bg-green-500"
+                }`}
+                style={{ width: `${inputLevel.meter * 100}%` }}
+              />
+            </div>
+          )}
+
           {/* Pause and Stop Buttons */}
           <div className="flex gap-4">
             {!isPaused ? (
@@ -231,6 +354,26 @@ export function AudioRecorder({ onRecordingComplete }: AudioRecorderProps) {
             </Button>
           </div>
 
+          {/* Input Warnings */}
+          {(autoPaused || (inputLevel && inputLevel.warnings.length > 0)) && (
+            <div className="w-full space-y-2">
+              {autoPaused && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    Recording paused because no sound reached the microphone for {AUTO_PAUSE_SECONDS}{" "}
+                    seconds. Check your microphone, then press Resume.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {!isPaused &&
+                inputLevel?.warnings.map((warning) => (
+                  <Alert key={warning} className="border-amber-300 bg-amber-50 text-amber-900">
+                    <AlertDescription>{INPUT_WARNINGS[warning]}</AlertDescription>
+                  </Alert>
+                ))}
+            </div>
+          )}
+
           {/* Info Text */}
           <p className="text-sm text-neutral-600 text-center">
           The recording must be at least one minute long.<br/>
@@ -1,11 +1,21 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
 import { AudioRecorder } from "@/components/audio-recorder";
+import { PipelineTimeline } from "@/components/pipeline-timeline";
+import { uploadDirect } from "@/lib/direct-upload-client";
+import type { JobStatus } from "@/lib/jobs";
+import type { PipelineEvent, PipelineEventType } from "@/lib/pipeline-events";
+import type { ReadingScript } from "@/lib/scripts";
+import type { Campaign } from "@/lib/campaigns";
+import type { RecorderSettings } from "@/lib/pcm-capture";
+import type { RecordingQualityReport } from "@/lib/recording-quality";
+import { checkRecordingQuality } from "@/lib/recording-quality-client";
 
 type UploadStatus = "idle" | "uploading" | "success" | "error";
 
@@ -13,26 +23,160 @@ interface UploadResponse {
   success: boolean;
   message: string;
   data?: {
-    downloadUrl: string;
-    fileName: string;
-    fileSize: string;
-    duration: number;
+    jobId: string;
+    statusUrl: string;
   };
   error?: string;
 }
 
+interface JobStatusResponse {
+  success: boolean;
+  data?: {
+    status: JobStatus;
+    progress: number;
+    error?: string;
+  };
+  error?: string;
+}
+
+type JobOutcome = "completed" | "failed";
+
+const JOB_POLL_INTERVAL_MS = 1000;
+
+const PIPELINE_EVENT_TYPES: PipelineEventType[] = [
+  "raw_uploaded",
+  "cloning",
+  "remixing",
+  "enhanced_uploaded",
+  "enhancement_failed",
+  "notified",
+  "cleaned_up",
+  "completed",
+  "failed",
+];
+
+/**
+ * Follow a job's Server-Sent Events until it finishes.
+ * Resolves null if the stream is unavailable, so the caller can fall back to polling.
+ */
+function followJobEvents(
+  jobId: string,
+  onEvent: (event: PipelineEvent) => void
+): Promise<JobOutcome | null> {
+  if (typeof EventSource === "undefined") {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    const handleEvent = (message: MessageEvent<string>) => {
+      const event: PipelineEvent = JSON.parse(message.data);
+      onEvent(event);
+      if (event.type === "completed" || event.type === "failed") {
+        source.close();
+        resolve(event.type);
+      }
+    };
+
+    PIPELINE_EVENT_TYPES.forEach((type) => source.addEventListener(type, handleEvent));
+
+    source.onerror = () => {
+      // EventSource retries on its own; only give up once it stops trying
+      if (source.readyState === EventSource.CLOSED) {
+        resolve(null);
+      }
+    };
+  });
+}
+
+/**
+ * Poll a job's status endpoint until it finishes; only progress is reported, not individual events
+ */
+async function pollJob(
+  statusUrl: string,
+  onProgress: (progress: number) => void
+): Promise<JobOutcome> {
+  while (true) {
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+
+    const statusResponse = await fetch(statusUrl, { cache: "no-store" });
+    const job: JobStatusResponse = await statusResponse.json();
+
+    if (!statusResponse.ok || !job.data) {
+      throw new Error(job.error || "Upload failed. Please try again.");
+    }
+
+    onProgress(job.data.progress);
+
+    if (job.data.status === "completed" || job.data.status === "failed") {
+      return job.data.status;
+    }
+  }
+}
+
+/**
+ * Friendly wait time for a Retry-After value in seconds
+ */
+function formatRetryAfter(seconds: number): string {
+  if (seconds < 90) {
+    return "in about a minute";
+  }
+  if (seconds < 90 * 60) {
+    return `in about ${Math.round(seconds / 60)} minutes`;
+  }
+  return `in about ${Math.round(seconds / 3600)} hours`;
+}
+
+/**
+ * Random idempotency key for a take; randomUUID is missing outside secure contexts such as a kiosk on plain HTTP
+ */
+function createTakeId(): string {
+  if (typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
 type Step = "recording" | "captured" | "details" | "success";
 
-export function AudioUpload() {
+interface AudioUploadProps {
+  /** Event the page runs for; its id is submitted with the recording */
+  campaign: Campaign;
+  /** Passage shown for reading; its id is submitted with the recording */
+  script: ReadingScript;
+  /** Enhancement preset to request; submitted with the recording */
+  presetId: string;
+  /** Current consent terms; the version is submitted once the box is ticked */
+  consent: { version: string; text: string };
+  /** Capture engine for the in-page recorder */
+  recorder: RecorderSettings;
+}
+
+export function AudioUpload({ campaign, script, presetId, consent, recorder }: AudioUploadProps) {
   const [step, setStep] = useState<Step>("recording");
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploadStatus, setUploadStatus] = useState<UploadStatus>("idle");
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [pipelineEvents, setPipelineEvents] = useState<PipelineEvent[]>([]);
   const [message, setMessage] = useState("");
   const [audioDuration, setAudioDuration] = useState<number | null>(null);
   const [emailError, setEmailError] = useState("");
+  const [consentGiven, setConsentGiven] = useState(false);
+  // One key per take, so resubmitting the same recording never starts a second run
+  const [takeId, setTakeId] = useState<string | null>(null);
+  // Direct upload of the current take, resumed if the participant submits again
+  const [directUploadId, setDirectUploadId] = useState<string | null>(null);
+  const [transferProgress, setTransferProgress] = useState<number | null>(null);
+  // Quality check of the current take; failing takes cannot be submitted
+  const [qualityReport, setQualityReport] = useState<RecordingQualityReport | null>(null);
+  const [qualityStatus, setQualityStatus] = useState<"checking" | "done" | "unavailable">("checking");
+  // Bumped per take so a slow check of an earlier take cannot overwrite the current one
+  const qualityCheckRef = useRef(0);
 
   const validateEmail = (email: string): boolean => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -77,50 +221,97 @@ export function AudioUpload() {
       return;
     }
 
+    if (!consentGiven) {
+      setUploadStatus("error");
+      setMessage("Please agree to the consent terms first");
+      return;
+    }
+
+    if (qualityReport?.verdict === "fail") {
+      setUploadStatus("error");
+      setMessage("This recording did not pass the quality check. Please record again.");
+      return;
+    }
+
     setUploadStatus("uploading");
     setUploadProgress(0);
+    setPipelineEvents([]);
     setMessage("");
 
     const formData = new FormData();
     formData.append("name", name.trim());
     formData.append("email", email.trim());
-    formData.append("file", selectedFile);
     formData.append("duration", audioDuration.toString());
+    formData.append("scriptId", script.id);
+    formData.append("presetId", presetId);
+    formData.append("campaignId", campaign.id);
+    formData.append("consentVersion", consent.version);
+    if (qualityReport) {
+      formData.append("quality", JSON.stringify(qualityReport.metrics));
+    }
 
-    // Use AI enhancement endpoint
-    const apiEndpoint = "/api/enhance";
+    const handleProgress = (progress: number) => {
+      setUploadProgress((prev) => Math.max(prev, progress));
+    };
+    // A reconnecting stream can replay events; keep one per seq
+    const handlePipelineEvent = (event: PipelineEvent) => {
+      setPipelineEvents((prev) =>
+        prev.some((existing) => existing.seq === event.seq) ? prev : [...prev, event]
+      );
+      handleProgress(event.progress);
+    };
 
     try {
-      // Simulate progress (slower for AI enhancement)
-      const progressInterval = setInterval(() => {
-        setUploadProgress((prev) => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + 10;
-        });
-      }, 1000);
-
-      const response = await fetch(apiEndpoint, {
+      // Send the recording straight to storage, then finalize with its upload id
+      setTransferProgress(0);
+      const uploadId = await uploadDirect(selectedFile, {
+        uploadId: directUploadId ?? undefined,
+        onStart: setDirectUploadId,
+        onProgress: (fraction) => setTransferProgress(Math.round(fraction * 100)),
+      });
+      setTransferProgress(null);
+      formData.append("uploadId", uploadId);
+
+      // Queue AI enhancement, then follow the job's live events until it finishes
+      const response = await fetch("/api/enhance", {
         method: "POST",
+        headers: takeId ? { "Idempotency-Key": takeId } : undefined,
         body: formData,
       });
 
-      clearInterval(progressInterval);
-      setUploadProgress(100);
-
       const data: UploadResponse = await response.json();
 
-      if (response.ok && data.success) {
+      if (response.status === 429) {
+        const retryAfter = parseInt(response.headers.get("Retry-After") || "", 10);
+        setUploadStatus("error");
+        setMessage(
+          `${data.error || "We're a little busy right now."} ${
+            retryAfter ? `You can try again ${formatRetryAfter(retryAfter)}.` : ""
+          }`.trim()
+        );
+        return;
+      }
+
+      if (!response.ok || !data.success || !data.data) {
+        setUploadStatus("error");
+        setMessage(data.error || "Upload failed. Please try again.");
+        return;
+      }
+
+      const outcome =
+        (await followJobEvents(data.data.jobId, handlePipelineEvent)) ??
+        (await pollJob(data.data.statusUrl, handleProgress));
+
+      if (outcome === "completed") {
         setUploadStatus("success");
         setMessage("Recording submitted successfully!");
         setStep("success"); // Move to success step
       } else {
         setUploadStatus("error");
-        setMessage(data.error || "Upload failed. Please try again.");
+        setMessage("Failed to process audio. Please try again.");
       }
     } catch (error) {
+      setTransferProgress(null);
       setUploadStatus("error");
       setMessage(
         error instanceof Error ? error.message : "Upload failed. Please try again."
@@ -139,6 +330,8 @@ export function AudioUpload() {
       extension = "webm";
     } else if (baseMimeType === "audio/ogg") {
       extension = "ogg";
+    } else if (baseMimeType === "audio/wav") {
+      extension = "wav";
     }
 
     const file = new File([audioBlob], `recording-${Date.now()}.${extension}`, {
@@ -147,12 +340,33 @@ export function AudioUpload() {
 
     setSelectedFile(file);
     setAudioDuration(duration);
+    setTakeId(createTakeId());
+    setDirectUploadId(null);
     setUploadStatus("idle");
     setMessage("");
     setStep("captured"); // Move to captured step
+
+    // Browsers that cannot decode their own recording skip the check rather than block the participant
+    const check = ++qualityCheckRef.current;
+    setQualityReport(null);
+    setQualityStatus("checking");
+    checkRecordingQuality(audioBlob)
+      .then((report) => {
+        if (check === qualityCheckRef.current) {
+          setQualityReport(report);
+          setQualityStatus("done");
+        }
+      })
+      .catch((error) => {
+        console.warn("Could not check recording quality:", error);
+        if (check === qualityCheckRef.current) {
+          setQualityStatus("unavailable");
+        }
+      });
   }, []);
 
   const handleRetake = useCallback(() => {
+    qualityCheckRef.current++;
     setSelectedFile(null);
     setAudioDuration(null);
     setStep("recording");
@@ -177,32 +391,13 @@ export function AudioUpload() {
         </h2>
       </div>
 
-      <div className="space-y-4 text-sm md:text-base text-black leading-relaxed">
-        <p>
-          When you listen closely to this voice, you hear more than sound — you hear intention.
-        </p>
-
-        <p>
-          There's a calm confidence here, the kind that doesn't rush to prove itself. The words arrive clearly,
-          shaped with care, each syllable landing just long enough to be understood, but never lingering too long.
-        </p>
-
-        <p>
-          You can sense curiosity underneath — a mind that's always moving, always exploring, even in the quiet
-          moments between sentences. There's a gentle rhythm in the way this person speaks… a natural pause before
-          important ideas, a subtle lift when something matters.
-        </p>
-
-        <p>
-          This is a voice that's comfortable thinking out loud. Thoughtful, grounded, and quietly expressive. When
-          excitement appears, it doesn't shout — it glows. And when there's uncertainty, it shows honesty, not hesitation.
-        </p>
-
-        <p>
-          What stands out most is the balance: clarity without stiffness, warmth without noise. This voice doesn't just
-          communicate — it connects. And in that connection, you hear someone who knows where they are, and is curious
-          about where they're going.
-        </p>
+      <div
+        lang={script.language}
+        className="space-y-4 text-sm md:text-base text-black leading-relaxed"
+      >
+        {script.paragraphs.map((paragraph, index) => (
+          <p key={index}>{paragraph}</p>
+        ))}
       </div>
     </div>
   );
@@ -218,7 +413,7 @@ export function AudioUpload() {
         />
         <div className="text-right">
           <p className="text-sm md:text-lg font-normal text-black leading-tight">Voice Modulation</p>
-          <p className="text-sm md:text-lg font-normal text-black leading-tight">Demo CES 2026</p>
+          <p className="text-sm md:text-lg font-normal text-black leading-tight">Demo {campaign.eventName}</p>
         </div>
       </div>
 
@@ -233,7 +428,7 @@ export function AudioUpload() {
                   Thanks {name}!
                 </h2>
                 <p className="text-lg text-black leading-relaxed">
-                  We will email you once we are ready with your AI voice model.
+                  {campaign.successCopy.message}
                 </p>
               </div>
 
@@ -297,7 +492,7 @@ export function AudioUpload() {
                   Thanks {name}!
                 </h2>
                 <p className="text-2xl text-black leading-relaxed">
-                  We will email you once we are ready with your AI voice model.
+                  {campaign.successCopy.message}
                 </p>
               </div>
             </div>
@@ -322,7 +517,10 @@ export function AudioUpload() {
                   Record Your Voice
                 </h2> */}
                 <div className="flex flex-col items-center space-y-4">
-                  <AudioRecorder onRecordingComplete={handleRecordingComplete} />
+                  <AudioRecorder
+                    settings={recorder}
+                    onRecordingComplete={handleRecordingComplete}
+                  />
                 </div>
               </div>
             )}
@@ -348,6 +546,46 @@ export function AudioUpload() {
                   ))}
                 </div>
 
+                {/* Quality Report */}
+                {qualityStatus === "checking" && (
+                  <p className="text-sm text-neutral-600">Checking your recording...</p>
+                )}
+                {qualityReport && (
+                  <div className="w-full space-y-3">
+                    {qualityReport.verdict === "pass" ? (
+                      <p className="text-sm text-center text-green-700">Your recording sounds good.</p>
+                    ) : (
+                      <Alert
+                        variant={qualityReport.verdict === "fail" ? "destructive" : "default"}
+                        className={
+                          qualityReport.verdict === "warn"
+                            ? "border-amber-300 bg-amber-50 text-amber-900"
+                            : undefined
+                        }
+                      >
+                        <AlertDescription className="space-y-2">
+                          <p className="font-medium">
+                            {qualityReport.verdict === "fail"
+                              ? "This recording can't be used. Please record again."
+                              : "You can submit this recording, but a retake may sound better."}
+                          </p>
+                          <ul className="list-disc pl-4 space-y-1">
+                            {qualityReport.issues.map((issue) => (
+                              <li key={issue.metric}>{issue.message}</li>
+                            ))}
+                          </ul>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    <p className="text-xs text-center text-neutral-500">
+                      Loudness {qualityReport.metrics.rmsDb} dBFS · Noise margin{" "}
+                      {qualityReport.metrics.snrDb} dB · Speech{" "}
+                      {Math.round(qualityReport.metrics.speechRatio * 100)}% · Longest pause{" "}
+                      {qualityReport.metrics.longestSilenceSeconds}s
+                    </p>
+                  </div>
+                )}
+
                 {/* Buttons */}
                 <div className="flex gap-4 w-full">
                   <Button
@@ -358,16 +596,29 @@ export function AudioUpload() {
                   </Button>
                   <Button
                     onClick={handleNext}
+                    disabled={
+                      !consentGiven ||
+                      qualityStatus === "checking" ||
+                      qualityReport?.verdict === "fail"
+                    }
                     className="flex-1 rounded-full px-8 py-6 text-base border-2 border-black !bg-black hover:!bg-neutral-800 !text-white"
                   >
                     Next
                   </Button>
                 </div>
 
-                {/* Terms Text */}
-                <p className="text-xs text-left text-neutral-600 leading-relaxed">
-                By continuing, you consent to your voice being uploaded, cloned and processed by AI for demonstration purposes at CES 2026. Your voice will be used for a personal demonstration to you and will be stored only for the duration of the event.
-                </p>
+                {/* Consent */}
+                <div className="flex items-start gap-3">
+                  <Checkbox
+                    id="consent"
+                    checked={consentGiven}
+                    onCheckedChange={(checked) => setConsentGiven(checked === true)}
+                    className="mt-0.5"
+                  />
+                  <label htmlFor="consent" className="text-xs text-left text-neutral-600 leading-relaxed">
+                    {consent.text}
+                  </label>
+                </div>
               </div>
             )}
 
@@ -407,7 +658,7 @@ export function AudioUpload() {
                       <p className="text-xs text-red-500">{emailError}</p>
                     ) : (
                       <p className="text-xs text-neutral-600 leading-relaxed">
-We will use this email to inform you when your voice model is ready for demonstration at our booth at CES 2026.
+                        {campaign.successCopy.emailNotice}
                       </p>
                     )}
                   </div>
@@ -415,20 +666,30 @@ We will use this email to inform you when your voice model is ready for demonstr
 
                 {/* Upload Progress */}
                 {uploadStatus === "uploading" && (
-                  <div className="space-y-2">
+                  <div className="space-y-3">
                     <div className="flex justify-between text-sm">
                       <span className="text-black">
-                        Processing your recording...
+                        {transferProgress !== null
+                          ? "Uploading your recording..."
+                          : "Processing your recording..."}
+                      </span>
+                      <span className="text-neutral-600">
+                        {transferProgress ?? uploadProgress}%
                       </span>
-                      <span className="text-neutral-600">{uploadProgress}%</span>
                     </div>
-                    <Progress value={uploadProgress} />
+                    <Progress value={transferProgress ?? uploadProgress} />
                     <p className="text-xs text-neutral-600 text-left">
                       Please wait! Uploading your voice sample.
                     </p>
                   </div>
                 )}
 
+                {/* Pipeline Timeline (kept after a failure to show where it stopped) */}
+                {(uploadStatus === "uploading" ||
+                  (uploadStatus === "error" && pipelineEvents.length > 0)) && (
+                  <PipelineTimeline events={pipelineEvents} />
+                )}
+
                 {/* Status Messages */}
                 {message && uploadStatus !== "idle" && (
                   <Alert variant={uploadStatus === "error" ? "destructive" : "default"}>
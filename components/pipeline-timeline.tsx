@@ -0,0 +1,82 @@
+"use client";
+
+import { Check, Circle, Loader2, Minus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { PipelineEvent, PipelineEventType } from "@/lib/pipeline-events";
+
+type StepState = "pending" | "active" | "done" | "skipped" | "failed";
+
+interface TimelineStep {
+  label: string;
+  /** Any of these events means the step has finished */
+  doneWhen: PipelineEventType[];
+  /** Whether the pipeline carries on without this step when AI enhancement fails */
+  optional?: boolean;
+}
+
+const TIMELINE_STEPS: TimelineStep[] = [
+  { label: "Uploading your recording", doneWhen: ["raw_uploaded"] },
+  { label: "Creating your AI voice model", doneWhen: ["remixing", "enhanced_uploaded"], optional: true },
+  { label: "Generating your enhanced voice", doneWhen: ["enhanced_uploaded"], optional: true },
+  { label: "Notifying our team", doneWhen: ["notified"] },
+  { label: "Finishing up", doneWhen: ["cleaned_up", "completed"] },
+];
+
+/**
+ * Work out the state of each timeline step from the events received so far
+ */
+function getStepStates(events: PipelineEvent[]): StepState[] {
+  const seen = new Set(events.map((event) => event.type));
+  const enhancementSkipped = seen.has("enhancement_failed") || seen.has("notified");
+  let activeAssigned = false;
+
+  return TIMELINE_STEPS.map((step) => {
+    if (step.doneWhen.some((type) => seen.has(type))) {
+      return "done";
+    }
+    if (step.optional && enhancementSkipped) {
+      return "skipped";
+    }
+    if (activeAssigned) {
+      return "pending";
+    }
+    activeAssigned = true;
+    return seen.has("failed") ? "failed" : "active";
+  });
+}
+
+const STEP_ICONS: Record<StepState, React.ReactNode> = {
+  pending: <Circle className="h-4 w-4 text-neutral-300" />,
+  active: <Loader2 className="h-4 w-4 animate-spin text-black" />,
+  done: <Check className="h-4 w-4 text-black" />,
+  skipped: <Minus className="h-4 w-4 text-neutral-400" />,
+  failed: <X className="h-4 w-4 text-red-500" />,
+};
+
+interface PipelineTimelineProps {
+  events: PipelineEvent[];
+}
+
+export function PipelineTimeline({ events }: PipelineTimelineProps) {
+  const states = getStepStates(events);
+
+  return (
+    <ol className="space-y-2">
+      {TIMELINE_STEPS.map((step, index) => (
+        <li key={step.label} className="flex items-center gap-3 text-sm">
+          {STEP_ICONS[states[index]]}
+          <span
+            className={cn(
+              states[index] === "pending" && "text-neutral-400",
+              states[index] === "skipped" && "text-neutral-400 line-through",
+              states[index] === "failed" && "text-red-500",
+              (states[index] === "active" || states[index] === "done") && "text-black"
+            )}
+          >
+            {step.label}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
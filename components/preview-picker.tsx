@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+export interface PreviewOption {
+  url: string;
+  duration: number;
+}
+
+interface PreviewPickerProps {
+  submissionId: string;
+  previews: PreviewOption[];
+  promotedPreview?: number;
+  /** Promotion is refused while the pipeline is still running */
+  disabled?: boolean;
+}
+
+/**
+ * Every remix preview side by side, with a button to promote one as the delivered file
+ */
+export function PreviewPicker({
+  submissionId,
+  previews,
+  promotedPreview = 0,
+  disabled,
+}: PreviewPickerProps) {
+  const router = useRouter();
+  const [pending, setPending] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const promote = async (index: number) => {
+    setPending(index);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/submissions/${submissionId}/promote`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ preview: index }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to promote preview");
+      }
+      if (!result.data.notified) {
+        setError("Preview promoted, but no notification channel took the update.");
+      }
+      router.refresh();
+    } catch (promoteError) {
+      setError(promoteError instanceof Error ? promoteError.message : "Failed to promote preview");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-3">
+        {previews.map((preview, index) => {
+          const promoted = index === promotedPreview;
+          return (
+            <div
+              key={preview.url}
+              className={cn(
+                "space-y-2 rounded-lg border p-3",
+                promoted ? "border-black" : "border-neutral-200"
+              )}
+            >
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-black">Preview {index + 1}</span>
+                <span className="text-neutral-500">{preview.duration.toFixed(1)}s</span>
+              </div>
+              <audio controls preload="none" src={preview.url} className="h-8 w-full" />
+              {promoted ? (
+                <p className="text-xs text-neutral-600">Delivered to participant</p>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  disabled={disabled || pending !== null}
+                  onClick={() => promote(index)}
+                >
+                  {pending === index ? "Promoting..." : "Promote"}
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import type { EmailTemplate } from "@/lib/mailer";
+
+interface SendEmailButtonProps {
+  submissionId: string;
+  template: EmailTemplate;
+  label: string;
+  disabled?: boolean;
+}
+
+/**
+ * Send a participant email from the admin page and refresh the delivery log
+ */
+export function SendEmailButton({ submissionId, template, label, disabled }: SendEmailButtonProps) {
+  const router = useRouter();
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async () => {
+    setSending(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/submissions/${submissionId}/email`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ template }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to send email");
+      }
+      if (result.data.status !== "sent") {
+        setError(`Not sent yet: ${result.data.lastError}. It will be retried.`);
+      }
+      router.refresh();
+    } catch (sendError) {
+      setError(sendError instanceof Error ? sendError.message : "Failed to send email");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Button type="button" variant="outline" disabled={disabled || sending} onClick={send}>
+        {sending ? "Sending..." : label}
+      </Button>
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </div>
+  );
+}
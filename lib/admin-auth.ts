@@ -0,0 +1,55 @@
+import { timingSafeEqual } from "crypto";
+
+/**
+ * Operator credentials from ADMIN_USERNAME (default "admin") and ADMIN_PASSWORD, or null when the admin area is disabled
+ */
+export function getAdminCredentials(): { username: string; password: string } | null {
+  const password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    return null;
+  }
+  return { username: process.env.ADMIN_USERNAME || "admin", password };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Check an HTTP Basic Authorization header against the operator credentials
+ */
+export function isAdminAuthorized(authorization: string | null): boolean {
+  const credentials = getAdminCredentials();
+  if (!credentials || !authorization?.startsWith("Basic ")) {
+    return false;
+  }
+
+  const decoded = Buffer.from(authorization.slice("Basic ".length), "base64").toString("utf8");
+  const separator = decoded.indexOf(":");
+  if (separator === -1) {
+    return false;
+  }
+
+  // Compare both parts so a wrong username takes as long as a wrong password
+  const usernameMatches = safeEqual(decoded.slice(0, separator), credentials.username);
+  const passwordMatches = safeEqual(decoded.slice(separator + 1), credentials.password);
+  return usernameMatches && passwordMatches;
+}
+
+/**
+ * Whether a browser sent the request from a page on another origin. Browsers replay cached Basic
+ * credentials on such requests, so admin actions must not act on them. Requests without an Origin
+ * header (curl, cron jobs) are not cross-origin.
+ */
+export function isCrossOriginRequest(origin: string | null, host: string | null): boolean {
+  if (!origin) {
+    return false;
+  }
+  try {
+    return new URL(origin).host !== host;
+  } catch {
+    return true;
+  }
+}
@@ -0,0 +1,69 @@
+import { getAudioStore } from "@/lib/storage";
+import type { Submission, SubmissionQuery, SubmissionStatus } from "@/lib/submissions";
+
+export const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+  processing: "Processing",
+  enhanced: "Enhanced",
+  raw_only: "Raw only",
+  failed: "Failed",
+};
+
+/**
+ * Error text for a submission: the critical error that stopped it, or why enhancement was skipped
+ */
+export function getSubmissionError(submission: Submission): string | undefined {
+  return submission.error || submission.enhancementError;
+}
+
+function getParam(value: string | string[] | undefined): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first || undefined;
+}
+
+/**
+ * Read filters from the dashboard's query string, dropping anything malformed
+ */
+export function parseSubmissionQuery(
+  params: Record<string, string | string[] | undefined>
+): SubmissionQuery {
+  const status = getParam(params.status);
+  const isDate = (value: string | undefined) => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const from = getParam(params.from);
+  const to = getParam(params.to);
+
+  return {
+    status: status && status in SUBMISSION_STATUS_LABELS ? (status as SubmissionStatus) : undefined,
+    campaignId: getParam(params.campaign),
+    needsReprocessing: getParam(params.reprocess) === "1" ? true : undefined,
+    from: isDate(from) ? from : undefined,
+    to: isDate(to) ? to : undefined,
+  };
+}
+
+/**
+ * Signed links for every stored remix preview, in the provider's order
+ */
+export async function getPreviewUrls(submission: Submission): Promise<string[]> {
+  const store = getAudioStore();
+  return Promise.all(
+    (submission.previews || []).map((preview) => store.getSignedUrl(preview.key, preview.fileName))
+  );
+}
+
+/**
+ * Fresh signed links for a submission's audio; links sent to Slack expire
+ */
+export async function getPlaybackUrls(
+  submission: Submission
+): Promise<{ raw?: string; enhanced?: string }> {
+  const store = getAudioStore();
+  const { rawKey, rawFileName, enhancedKey, enhancedFileName } = submission;
+
+  return {
+    raw: rawKey && rawFileName ? await store.getSignedUrl(rawKey, rawFileName) : undefined,
+    enhanced:
+      enhancedKey && enhancedFileName
+        ? await store.getSignedUrl(enhancedKey, enhancedFileName)
+        : undefined,
+  };
+}
@@ -0,0 +1,976 @@
+import { detectAudioType, type AudioContainer } from "@/lib/file-type";
+
+export type { AudioContainer } from "@/lib/file-type";
+
+/**
+ * Properties measured from the audio bytes themselves (never from client-supplied fields)
+ */
+export interface AudioProbe {
+  container: AudioContainer;
+  codec: string;
+  /** Seconds */
+  duration: number;
+  channels: number;
+  sampleRate: number;
+}
+
+export const MIN_DURATION_SECONDS = 60;
+export const MIN_SAMPLE_RATE = 8000;
+
+// ---------------------------------------------------------------------------
+// WAV
+// ---------------------------------------------------------------------------
+
+const WAV_FORMAT_CODECS: Record<number, string> = {
+  0x0001: "pcm",
+  0x0003: "pcm_float",
+  0x0006: "alaw",
+  0x0007: "mulaw",
+  0x0055: "mp3",
+};
+
+// Formats with a fixed number of bytes per sample, whose byte rate follows from the rest of the header
+const UNCOMPRESSED_WAV_CODECS = ["pcm", "pcm_float", "alaw", "mulaw"];
+
+/**
+ * totalLength is the size of the whole file when buffer holds only its start
+ */
+function probeWav(buffer: Buffer, totalLength = buffer.length): AudioProbe | null {
+  let offset = 12;
+  let fmt: { codec: string; channels: number; sampleRate: number; byteRate: number } | null = null;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString("latin1", offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === "fmt " && body + 16 <= buffer.length) {
+      let formatTag = buffer.readUInt16LE(body);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the first two bytes of the sub-format GUID
+      if (formatTag === 0xfffe && chunkSize >= 26 && body + 26 <= buffer.length) {
+        formatTag = buffer.readUInt16LE(body + 24);
+      }
+      const codec = WAV_FORMAT_CODECS[formatTag] || `wav_format_${formatTag}`;
+      const channels = buffer.readUInt16LE(body + 2);
+      const sampleRate = buffer.readUInt32LE(body + 4);
+      const byteRate = buffer.readUInt32LE(body + 8);
+      const blockAlign = buffer.readUInt16LE(body + 12);
+      const bitsPerSample = buffer.readUInt16LE(body + 14);
+      // Duration comes from the byte rate, so a header that understates it would pass off a short take as a long one
+      if (
+        UNCOMPRESSED_WAV_CODECS.includes(codec) &&
+        (blockAlign !== channels * Math.ceil(bitsPerSample / 8) || byteRate !== sampleRate * blockAlign)
+      ) {
+        return null;
+      }
+      fmt = { codec, channels, sampleRate, byteRate };
+    } else if (chunkId === "data" && fmt) {
+      // Streaming writers leave the size as 0 or 0xFFFFFFFF; fall back to what is actually present
+      const available = totalLength - body;
+      const dataSize = chunkSize === 0 || chunkSize > available ? available : chunkSize;
+      if (!fmt.byteRate) return null;
+      return {
+        container: "wav",
+        codec: fmt.codec,
+        duration: dataSize / fmt.byteRate,
+        channels: fmt.channels,
+        sampleRate: fmt.sampleRate,
+      };
+    }
+
+    // Chunks are padded to an even size
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// MP3 (MPEG audio frames)
+// ---------------------------------------------------------------------------
+
+const MPEG_BITRATES: Record<string, number[]> = {
+  // Index 0 is "free", 15 is invalid
+  "1-1": [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  "1-2": [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  "1-3": [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  "2-1": [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  "2-2": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  "2-3": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const MPEG_SAMPLE_RATES: Record<string, number[]> = {
+  "1": [44100, 48000, 32000],
+  "2": [22050, 24000, 16000],
+  "2.5": [11025, 12000, 8000],
+};
+
+interface MpegFrame {
+  version: "1" | "2" | "2.5";
+  layer: 1 | 2 | 3;
+  sampleRate: number;
+  channels: number;
+  samples: number;
+  length: number;
+}
+
+function parseMpegFrameHeader(buffer: Buffer, offset: number): MpegFrame | null {
+  if (offset + 4 > buffer.length) return null;
+  const header = buffer.readUInt32BE(offset);
+  if ((header & 0xffe00000) >>> 0 !== 0xffe00000) return null;
+
+  const versionBits = (header >>> 19) & 0x3;
+  const layerBits = (header >>> 17) & 0x3;
+  const bitrateIndex = (header >>> 12) & 0xf;
+  const sampleRateIndex = (header >>> 10) & 0x3;
+  const padding = (header >>> 9) & 0x1;
+  const channelMode = (header >>> 6) & 0x3;
+
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const version = versionBits === 3 ? "1" : versionBits === 2 ? "2" : "2.5";
+  const layer = (4 - layerBits) as 1 | 2 | 3;
+  const bitrate = MPEG_BITRATES[`${version === "1" ? 1 : 2}-${layer}`][bitrateIndex] * 1000;
+  const sampleRate = MPEG_SAMPLE_RATES[version][sampleRateIndex];
+
+  let samples: number;
+  let length: number;
+  if (layer === 1) {
+    samples = 384;
+    length = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+  } else if (layer === 3 && version !== "1") {
+    samples = 576;
+    length = Math.floor((72 * bitrate) / sampleRate) + padding;
+  } else {
+    samples = 1152;
+    length = Math.floor((144 * bitrate) / sampleRate) + padding;
+  }
+
+  return {
+    version,
+    layer,
+    sampleRate,
+    channels: channelMode === 3 ? 1 : 2,
+    samples,
+    length,
+  };
+}
+
+/**
+ * totalLength is the size of the whole file when buffer holds only its start;
+ * the duration is then extrapolated from the frames that were counted
+ */
+function probeMp3(buffer: Buffer, totalLength = buffer.length): AudioProbe | null {
+  let offset = 0;
+
+  // Skip ID3v2 tag (size is a 28-bit syncsafe integer)
+  if (buffer.toString("latin1", 0, 3) === "ID3" && buffer.length >= 10) {
+    const size =
+      ((buffer[6] & 0x7f) << 21) | ((buffer[7] & 0x7f) << 14) | ((buffer[8] & 0x7f) << 7) | (buffer[9] & 0x7f);
+    const hasFooter = (buffer[5] & 0x10) !== 0;
+    offset = 10 + size + (hasFooter ? 10 : 0);
+  }
+
+  // Find the first frame, requiring the next header to line up so stray 0xFF bytes are not mistaken for sync
+  let first: MpegFrame | null = null;
+  while (offset + 4 <= buffer.length) {
+    const frame = parseMpegFrameHeader(buffer, offset);
+    if (frame && parseMpegFrameHeader(buffer, offset + frame.length)) {
+      first = frame;
+      break;
+    }
+    offset++;
+  }
+  if (!first) return null;
+  const firstFrameOffset = offset;
+
+  // Count every frame rather than trusting a Xing/Info frame count, which also handles VBR
+  let totalSamples = 0;
+  while (offset + 4 <= buffer.length) {
+    const frame = parseMpegFrameHeader(buffer, offset);
+    if (!frame || frame.length <= 0) break;
+    totalSamples += frame.samples;
+    offset += frame.length;
+  }
+
+  let duration = totalSamples / first.sampleRate;
+  if (totalLength > buffer.length && offset > firstFrameOffset) {
+    duration *= (totalLength - firstFrameOffset) / (offset - firstFrameOffset);
+  }
+
+  return {
+    container: "mp3",
+    codec: `mp${first.layer}`,
+    duration,
+    channels: first.channels,
+    sampleRate: first.sampleRate,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Ogg (Opus / Vorbis / FLAC)
+// ---------------------------------------------------------------------------
+
+/**
+ * Pages are walked from the start; when buffer holds only the start of the file,
+ * tail holds its last bytes and supplies the final granule position
+ */
+function probeOgg(buffer: Buffer, tail?: Buffer): AudioProbe | null {
+  let offset = 0;
+  let serial: number | null = null;
+  let codec = "";
+  let channels = 0;
+  let sampleRate = 0;
+  let granuleRate = 0;
+  let preSkip = 0;
+  let lastGranule = 0;
+
+  while (offset + 27 <= buffer.length && buffer.toString("latin1", offset, offset + 4) === "OggS") {
+    const granule = buffer.readBigInt64LE(offset + 6);
+    const pageSerial = buffer.readUInt32LE(offset + 14);
+    const segmentCount = buffer[offset + 26];
+    if (offset + 27 + segmentCount > buffer.length) break;
+
+    let bodySize = 0;
+    for (let i = 0; i < segmentCount; i++) {
+      bodySize += buffer[offset + 27 + i];
+    }
+    const body = offset + 27 + segmentCount;
+
+    // The first page of the first logical stream identifies the codec
+    if (serial === null) {
+      serial = pageSerial;
+      const packet = buffer.subarray(body, Math.min(body + bodySize, buffer.length));
+
+      if (packet.toString("latin1", 0, 8) === "OpusHead" && packet.length >= 16) {
+        codec = "opus";
+        channels = packet[9];
+        preSkip = packet.readUInt16LE(10);
+        sampleRate = packet.readUInt32LE(12) || 48000;
+        granuleRate = 48000; // Opus granule positions always count 48 kHz samples
+      } else if (packet[0] === 0x01 && packet.toString("latin1", 1, 7) === "vorbis" && packet.length >= 16) {
+        codec = "vorbis";
+        channels = packet[11];
+        sampleRate = packet.readUInt32LE(12);
+        granuleRate = sampleRate;
+      } else if (packet[0] === 0x7f && packet.toString("latin1", 1, 5) === "FLAC" && packet.length >= 30) {
+        // Ogg FLAC mapping header followed by a STREAMINFO block
+        const streamInfo = 13 + 4;
+        codec = "flac";
+        sampleRate = (packet.readUInt32BE(streamInfo + 10) >>> 12) & 0xfffff;
+        channels = ((packet[streamInfo + 12] >>> 1) & 0x7) + 1;
+        granuleRate = sampleRate;
+      } else {
+        return null;
+      }
+    }
+
+    // -1 means no packet finishes on this page
+    if (pageSerial === serial && granule >= BigInt(0)) {
+      lastGranule = Number(granule);
+    }
+
+    offset = body + bodySize;
+  }
+
+  if (!codec || !granuleRate) return null;
+
+  if (tail) {
+    // Page boundaries are unknown in the tail, so look for every capture pattern with a sane header
+    for (let page = tail.indexOf("OggS"); page !== -1; page = tail.indexOf("OggS", page + 1)) {
+      if (page + 27 > tail.length || tail[page + 4] !== 0) continue;
+      const granule = tail.readBigInt64LE(page + 6);
+      if (tail.readUInt32LE(page + 14) === serial && granule >= BigInt(0)) {
+        lastGranule = Math.max(lastGranule, Number(granule));
+      }
+    }
+  }
+
+  return {
+    container: "ogg",
+    codec,
+    duration: Math.max(0, lastGranule - preSkip) / granuleRate,
+    channels,
+    sampleRate,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// MP4 / M4A (ISO base media file format)
+// ---------------------------------------------------------------------------
+
+interface Mp4Box {
+  type: string;
+  start: number;
+  /** Offset of the box payload */
+  body: number;
+  end: number;
+}
+
+function readMp4Boxes(buffer: Buffer, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    let headerSize = 8;
+
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) break;
+
+    boxes.push({ type, start: offset, body: offset + headerSize, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+function findMp4Box(buffer: Buffer, parent: Mp4Box, path: string[]): Mp4Box | null {
+  let current: Mp4Box | null = parent;
+  for (const type of path) {
+    if (!current) return null;
+    current = readMp4Boxes(buffer, current.body, current.end).find((box) => box.type === type) || null;
+  }
+  return current;
+}
+
+const MP4_SAMPLE_ENTRY_CODECS: Record<string, string> = {
+  mp4a: "aac",
+  Opus: "opus",
+  alac: "alac",
+  fLaC: "flac",
+  "ac-3": "ac3",
+  "ec-3": "eac3",
+  ".mp3": "mp3",
+};
+
+// QuickTime sound description versions 1 and 2 append extra fields before child boxes
+const QUICKTIME_SOUND_VERSION_EXTRA: Record<number, number> = { 0: 0, 1: 16, 2: 36 };
+
+const AAC_SAMPLE_RATES = [
+  96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350,
+];
+
+/**
+ * Read an MPEG-4 descriptor header (tag + variable-length size)
+ */
+function readMp4Descriptor(buffer: Buffer, offset: number): { tag: number; body: number; size: number } {
+  const tag = buffer[offset];
+  let size = 0;
+  let cursor = offset + 1;
+  for (let i = 0; i < 4; i++) {
+    const byte = buffer[cursor++];
+    size = (size << 7) | (byte & 0x7f);
+    if (!(byte & 0x80)) break;
+  }
+  return { tag, body: cursor, size };
+}
+
+/**
+ * Channels and sample rate from esds (AAC AudioSpecificConfig) or dOps (Opus)
+ */
+function readMp4CodecConfig(
+  buffer: Buffer,
+  entry: Mp4Box
+): { channels: number; sampleRate: number } | null {
+  if (entry.body >= entry.end) return null;
+  const children = readMp4Boxes(buffer, entry.body, entry.end);
+
+  const dOps = children.find((box) => box.type === "dOps");
+  if (dOps) {
+    return { channels: buffer[dOps.body + 1], sampleRate: buffer.readUInt32BE(dOps.body + 4) };
+  }
+
+  const esds = children.find((box) => box.type === "esds");
+  if (!esds) return null;
+
+  // ES_Descriptor → DecoderConfigDescriptor → DecoderSpecificInfo
+  const es = readMp4Descriptor(buffer, esds.body + 4);
+  if (es.tag !== 0x03) return null;
+  const esFlags = buffer[es.body + 2];
+  let cursor = es.body + 3;
+  if (esFlags & 0x80) cursor += 2;
+  if (esFlags & 0x40) cursor += buffer[cursor] + 1;
+  if (esFlags & 0x20) cursor += 2;
+
+  const decoderConfig = readMp4Descriptor(buffer, cursor);
+  if (decoderConfig.tag !== 0x04) return null;
+  const specificInfo = readMp4Descriptor(buffer, decoderConfig.body + 13);
+  if (specificInfo.tag !== 0x05 || specificInfo.size < 2) return null;
+
+  // AudioSpecificConfig: 5 bits object type, 4 bits frequency index, 4 bits channel configuration
+  const bits = buffer.readUInt16BE(specificInfo.body);
+  const frequencyIndex = (bits >> 7) & 0xf;
+  const channelConfig = (bits >> 3) & 0xf;
+  return {
+    channels: channelConfig,
+    sampleRate: AAC_SAMPLE_RATES[frequencyIndex] || 0,
+  };
+}
+
+function probeMp4(buffer: Buffer): AudioProbe | null {
+  const root: Mp4Box = { type: "root", start: 0, body: 0, end: buffer.length };
+  const topLevel = readMp4Boxes(buffer, 0, buffer.length);
+  const moov = topLevel.find((box) => box.type === "moov");
+  if (!moov) return null;
+
+  // Find the sound track
+  const tracks = readMp4Boxes(buffer, moov.body, moov.end).filter((box) => box.type === "trak");
+  const track = tracks.find((trak) => {
+    const hdlr = findMp4Box(buffer, trak, ["mdia", "hdlr"]);
+    return hdlr !== null && buffer.toString("latin1", hdlr.body + 8, hdlr.body + 12) === "soun";
+  });
+  if (!track) return null;
+
+  const tkhd = findMp4Box(buffer, track, ["tkhd"]);
+  const mdhd = findMp4Box(buffer, track, ["mdia", "mdhd"]);
+  const stsd = findMp4Box(buffer, track, ["mdia", "minf", "stbl", "stsd"]);
+  if (!tkhd || !mdhd || !stsd) return null;
+
+  const trackId = buffer.readUInt32BE(tkhd.body + (buffer[tkhd.body] === 1 ? 20 : 12));
+
+  const mdhdVersion = buffer[mdhd.body];
+  const timescale = buffer.readUInt32BE(mdhd.body + (mdhdVersion === 1 ? 20 : 12));
+  let duration =
+    mdhdVersion === 1
+      ? Number(buffer.readBigUInt64BE(mdhd.body + 24))
+      : buffer.readUInt32BE(mdhd.body + 16);
+  if (!timescale) return null;
+
+  // First sample entry: 8-byte box header, then an AudioSampleEntry
+  const entry = stsd.body + 8;
+  if (entry + 36 > stsd.end) return null;
+  const format = buffer.toString("latin1", entry + 4, entry + 8);
+  let channels = buffer.readUInt16BE(entry + 24);
+  let sampleRate = buffer.readUInt32BE(entry + 32) >>> 16;
+
+  // ISO files store template values above (always 2 channels); the codec config box has the real ones
+  const entryBox: Mp4Box = {
+    type: format,
+    start: entry,
+    body: entry + 36 + QUICKTIME_SOUND_VERSION_EXTRA[buffer.readUInt16BE(entry + 16)],
+    end: Math.min(entry + buffer.readUInt32BE(entry), stsd.end),
+  };
+  const codecConfig = readMp4CodecConfig(buffer, entryBox);
+  if (codecConfig) {
+    channels = codecConfig.channels || channels;
+    sampleRate = codecConfig.sampleRate || sampleRate;
+  }
+
+  // Fragmented files (what browsers record) leave mdhd empty; add up the fragments instead
+  if (!duration || duration === 0xffffffff) {
+    duration = sumFragmentDurations(buffer, root, moov, trackId);
+  }
+
+  return {
+    container: "mp4",
+    codec: MP4_SAMPLE_ENTRY_CODECS[format] || format.trim(),
+    duration: duration / timescale,
+    channels,
+    sampleRate,
+  };
+}
+
+function sumFragmentDurations(buffer: Buffer, root: Mp4Box, moov: Mp4Box, trackId: number): number {
+  // Track-level default sample duration from moov/mvex/trex
+  let defaultDuration = 0;
+  const mvex = findMp4Box(buffer, moov, ["mvex"]);
+  if (mvex) {
+    for (const trex of readMp4Boxes(buffer, mvex.body, mvex.end)) {
+      if (trex.type === "trex" && buffer.readUInt32BE(trex.body + 4) === trackId) {
+        defaultDuration = buffer.readUInt32BE(trex.body + 12);
+      }
+    }
+  }
+
+  let total = 0;
+  const moofs = readMp4Boxes(buffer, root.body, root.end).filter((box) => box.type === "moof");
+
+  for (const moof of moofs) {
+    for (const traf of readMp4Boxes(buffer, moof.body, moof.end)) {
+      if (traf.type !== "traf") continue;
+      const children = readMp4Boxes(buffer, traf.body, traf.end);
+      const tfhd = children.find((box) => box.type === "tfhd");
+      if (!tfhd || buffer.readUInt32BE(tfhd.body + 4) !== trackId) continue;
+
+      // tfhd optional fields are laid out in flag order
+      const tfhdFlags = buffer.readUInt32BE(tfhd.body) & 0xffffff;
+      let fieldOffset = tfhd.body + 8;
+      if (tfhdFlags & 0x01) fieldOffset += 8; // base-data-offset
+      if (tfhdFlags & 0x02) fieldOffset += 4; // sample-description-index
+      const fragmentDefault = tfhdFlags & 0x08 ? buffer.readUInt32BE(fieldOffset) : defaultDuration;
+
+      for (const trun of children) {
+        if (trun.type !== "trun") continue;
+        const flags = buffer.readUInt32BE(trun.body) & 0xffffff;
+        const sampleCount = buffer.readUInt32BE(trun.body + 4);
+        let sampleOffset = trun.body + 8;
+        if (flags & 0x001) sampleOffset += 4; // data-offset
+        if (flags & 0x004) sampleOffset += 4; // first-sample-flags
+
+        if (!(flags & 0x100)) {
+          total += sampleCount * fragmentDefault;
+          continue;
+        }
+
+        const sampleSize =
+          4 + (flags & 0x200 ? 4 : 0) + (flags & 0x400 ? 4 : 0) + (flags & 0x800 ? 4 : 0);
+        for (let i = 0; i < sampleCount && sampleOffset + 4 <= trun.end; i++) {
+          total += buffer.readUInt32BE(sampleOffset);
+          sampleOffset += sampleSize;
+        }
+      }
+    }
+  }
+
+  return total;
+}
+
+// ---------------------------------------------------------------------------
+// WebM / Matroska (EBML)
+// ---------------------------------------------------------------------------
+
+const EBML_IDS = {
+  header: 0x1a45dfa3,
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackNumber: 0xd7,
+  trackType: 0x83,
+  codecId: 0x86,
+  audio: 0xe1,
+  samplingFrequency: 0xb5,
+  channels: 0x9f,
+  cluster: 0x1f43b675,
+  clusterTimecode: 0xe7,
+  simpleBlock: 0xa3,
+  blockGroup: 0xa0,
+  block: 0xa1,
+};
+
+// Elements whose children we walk; everything else is read or skipped as a whole
+const EBML_MASTER_IDS = new Set([
+  EBML_IDS.header,
+  EBML_IDS.segment,
+  EBML_IDS.info,
+  EBML_IDS.tracks,
+  EBML_IDS.trackEntry,
+  EBML_IDS.audio,
+  EBML_IDS.cluster,
+  EBML_IDS.blockGroup,
+]);
+
+const MATROSKA_CODECS: Record<string, string> = {
+  A_OPUS: "opus",
+  A_VORBIS: "vorbis",
+  A_AAC: "aac",
+  A_FLAC: "flac",
+  "A_PCM/INT/LIT": "pcm",
+  "A_PCM/FLOAT/IEEE": "pcm_float",
+  "A_MPEG/L3": "mp3",
+};
+
+/**
+ * Read an EBML variable-length integer; returns the value and its length in bytes
+ */
+function readVint(
+  buffer: Buffer,
+  offset: number,
+  keepMarker: boolean
+): { value: number; length: number; unknown: boolean } | null {
+  if (offset >= buffer.length) return null;
+  const first = buffer[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || offset + length > buffer.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    if (buffer[offset + i] !== 0xff) allOnes = false;
+  }
+
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readEbmlUint(buffer: Buffer, offset: number, size: number): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) value = value * 256 + buffer[offset + i];
+  return value;
+}
+
+function readEbmlFloat(buffer: Buffer, offset: number, size: number): number {
+  if (size === 4) return buffer.readFloatBE(offset);
+  if (size === 8) return buffer.readDoubleBE(offset);
+  return 0;
+}
+
+/**
+ * tail holds the last bytes of a file too large to probe whole; without it, or a Duration element,
+ * the last block in buffer sets the duration
+ */
+function probeWebm(buffer: Buffer, tail?: Buffer): AudioProbe | null {
+  interface TrackInfo {
+    number: number;
+    type: number;
+    codecId: string;
+    sampleRate: number;
+    channels: number;
+  }
+
+  const tracks: TrackInfo[] = [];
+  let timecodeScale = 1000000; // nanoseconds per tick
+  let declaredDuration = 0;
+  let clusterTimecode = -1;
+  let lastBlockTime = -1;
+  let previousBlockTime = -1;
+
+  const recordBlock = (data: Buffer, start: number) => {
+    // Block header: track number (vint), int16 timecode relative to the cluster, flags
+    const trackNumber = readVint(data, start, false);
+    if (clusterTimecode < 0 || !trackNumber || start + trackNumber.length + 2 > data.length) return;
+    const audioTrack = tracks.find((track) => track.type === 2);
+    if (audioTrack && trackNumber.value !== audioTrack.number) return;
+    const time = clusterTimecode + data.readInt16BE(start + trackNumber.length);
+    if (time > lastBlockTime) {
+      previousBlockTime = lastBlockTime;
+      lastBlockTime = time;
+    }
+  };
+
+  // Elements are walked flat: masters are entered, leaves are handled and skipped.
+  // This copes with the unknown-size Segment and Cluster elements MediaRecorder writes.
+  const walk = (data: Buffer, start: number) => {
+    let offset = start;
+    while (offset < data.length) {
+      const id = readVint(data, offset, true);
+      if (!id) break;
+      const size = readVint(data, offset + id.length, false);
+      if (!size) break;
+      const dataStart = offset + id.length + size.length;
+
+      if (EBML_MASTER_IDS.has(id.value) || size.unknown) {
+        if (id.value === EBML_IDS.trackEntry) {
+          tracks.push({ number: 0, type: 0, codecId: "", sampleRate: 0, channels: 1 });
+        }
+        offset = dataStart;
+        continue;
+      }
+
+      const dataEnd = dataStart + size.value;
+      if (dataEnd > data.length) {
+        // Truncated final element; a block header may still be readable
+        if (id.value === EBML_IDS.simpleBlock || id.value === EBML_IDS.block) recordBlock(data, dataStart);
+        break;
+      }
+
+      const track = tracks[tracks.length - 1];
+      switch (id.value) {
+        case EBML_IDS.timecodeScale:
+          timecodeScale = readEbmlUint(data, dataStart, size.value);
+          break;
+        case EBML_IDS.duration:
+          declaredDuration = readEbmlFloat(data, dataStart, size.value);
+          break;
+        case EBML_IDS.trackNumber:
+          if (track) track.number = readEbmlUint(data, dataStart, size.value);
+          break;
+        case EBML_IDS.trackType:
+          if (track) track.type = readEbmlUint(data, dataStart, size.value);
+          break;
+        case EBML_IDS.codecId:
+          if (track) track.codecId = data.toString("latin1", dataStart, dataEnd).replace(/\0+$/, "");
+          break;
+        case EBML_IDS.samplingFrequency:
+          if (track) track.sampleRate = readEbmlFloat(data, dataStart, size.value);
+          break;
+        case EBML_IDS.channels:
+          if (track) track.channels = readEbmlUint(data, dataStart, size.value);
+          break;
+        case EBML_IDS.clusterTimecode:
+          clusterTimecode = readEbmlUint(data, dataStart, size.value);
+          break;
+        case EBML_IDS.simpleBlock:
+        case EBML_IDS.block:
+          recordBlock(data, dataStart);
+          break;
+      }
+
+      offset = dataEnd;
+    }
+  };
+
+  walk(buffer, 0);
+
+  const audioTrack = tracks.find((track) => track.type === 2);
+  if (!audioTrack) return null;
+
+  // The head only reaches part of a large file. Walk its last cluster in the tail instead, found by
+  // its ID and confirmed by the cluster Timecode that always comes first.
+  let reachedEnd = !tail;
+  if (tail) {
+    const clusterId = Buffer.from([0x1f, 0x43, 0xb6, 0x75]);
+    for (let candidate = tail.lastIndexOf(clusterId); candidate !== -1; ) {
+      const size = readVint(tail, candidate + clusterId.length, false);
+      const firstChild = size ? candidate + clusterId.length + size.length : -1;
+      if (size && tail[firstChild] === EBML_IDS.clusterTimecode) {
+        clusterTimecode = -1;
+        lastBlockTime = -1;
+        previousBlockTime = -1;
+        walk(tail, firstChild);
+        reachedEnd = lastBlockTime >= 0;
+        break;
+      }
+      candidate = candidate > 0 ? tail.lastIndexOf(clusterId, candidate - 1) : -1;
+    }
+  }
+
+  // Prefer block timestamps (MediaRecorder omits Duration): the last one plus one frame.
+  // When the end of a large file could not be found, a declared Duration beats the head's last block.
+  let ticks = declaredDuration;
+  if (lastBlockTime >= 0 && (reachedEnd || !declaredDuration)) {
+    const frameTicks = previousBlockTime >= 0 ? lastBlockTime - previousBlockTime : 0;
+    ticks = lastBlockTime + frameTicks;
+  }
+
+  return {
+    container: "webm",
+    codec: MATROSKA_CODECS[audioTrack.codecId] || audioTrack.codecId.toLowerCase(),
+    duration: (ticks * timecodeScale) / 1e9,
+    channels: audioTrack.channels,
+    sampleRate: audioTrack.sampleRate,
+  };
+}
+
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse the audio container and measure duration, codec, channels and sample rate.
+ * Returns null when the bytes are not a supported or readable audio file.
+ */
+export function probeAudio(buffer: Buffer): AudioProbe | null {
+  try {
+    switch (detectAudioType(buffer)?.container) {
+      case "wav":
+        return probeWav(buffer);
+      case "mp3":
+        return probeMp3(buffer);
+      case "ogg":
+        return probeOgg(buffer);
+      case "mp4":
+        return probeMp4(buffer);
+      case "webm":
+        return probeWebm(buffer);
+      default:
+        return null;
+    }
+  } catch (error) {
+    // Out-of-range reads on malformed files end up here
+    console.error("Audio probe failed:", error);
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Streams
+// ---------------------------------------------------------------------------
+
+/** Bytes kept from the start of a stream; files up to this size are probed whole */
+export const PROBE_HEAD_BYTES = 8 * 1024 * 1024;
+const PROBE_TAIL_BYTES = 256 * 1024;
+// Cap on the MP4 metadata kept from a large file; a moov this big would index hours of audio
+const MAX_MP4_METADATA_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Keeps an MP4's top-level moov and moof boxes as they stream past and skips everything else,
+ * so its metadata can be probed wherever it sits, e.g. a moov written after the media data
+ */
+function createMp4MetadataCollector() {
+  const kept: Buffer[] = [];
+  let keptSize = 0;
+  // Box headers can straddle chunks, so a partial one is held here
+  let header = Buffer.alloc(0);
+  let remaining = 0;
+  let keeping = false;
+  let broken = false;
+
+  const keep = (bytes: Buffer) => {
+    if (keptSize + bytes.length > MAX_MP4_METADATA_BYTES) {
+      broken = true;
+      return;
+    }
+    kept.push(bytes);
+    keptSize += bytes.length;
+  };
+
+  function write(bytes: Buffer): void {
+    let offset = 0;
+    while (offset < bytes.length && !broken) {
+      if (remaining > 0) {
+        const length = Math.min(remaining, bytes.length - offset);
+        if (keeping) keep(bytes.subarray(offset, offset + length));
+        remaining -= length;
+        offset += length;
+        continue;
+      }
+
+      // 8-byte header, or 16 when a size of 1 means a 64-bit size follows
+      const wanted = header.length >= 8 && header.readUInt32BE(0) === 1 ? 16 : 8;
+      const length = Math.min(wanted - header.length, bytes.length - offset);
+      header = Buffer.concat([header, bytes.subarray(offset, offset + length)]);
+      offset += length;
+      if (header.length < 8 || (header.readUInt32BE(0) === 1 && header.length < 16)) continue;
+
+      const size32 = header.readUInt32BE(0);
+      // A size of 0 runs to the end of the file
+      const size =
+        size32 === 1 ? Number(header.readBigUInt64BE(8)) : size32 === 0 ? Infinity : size32;
+      if (size < header.length) {
+        broken = true;
+        break;
+      }
+      const type = header.toString("latin1", 4, 8);
+      keeping = type === "moov" || type === "moof";
+      if (keeping) keep(header);
+      remaining = size - header.length;
+      header = Buffer.alloc(0);
+    }
+  }
+
+  return {
+    write,
+    /** The kept boxes back to back, which parse like a file without its media data */
+    boxes: () => Buffer.concat(kept, keptSize),
+  };
+}
+
+/**
+ * Keeps the start and end of an audio stream so it can be probed without holding the whole file
+ */
+export interface AudioProbeWindow {
+  write(chunk: Uint8Array): void;
+  /** Bytes written so far */
+  readonly size: number;
+  /** The first bytes written, up to PROBE_HEAD_BYTES */
+  head(): Buffer;
+  probe(): AudioProbe | null;
+}
+
+export function createAudioProbeWindow(): AudioProbeWindow {
+  const headChunks: Buffer[] = [];
+  let headSize = 0;
+  const tailChunks: Buffer[] = [];
+  let tailSize = 0;
+  let size = 0;
+  // Set once the first bytes show an MP4; undefined until then
+  let mp4Metadata: ReturnType<typeof createMp4MetadataCollector> | null | undefined;
+
+  function write(chunk: Uint8Array): void {
+    // Copy, since stream chunks may be views into buffers that get reused
+    const bytes = Buffer.from(chunk);
+    size += bytes.length;
+
+    if (headSize < PROBE_HEAD_BYTES) {
+      const kept = bytes.subarray(0, PROBE_HEAD_BYTES - headSize);
+      headChunks.push(kept);
+      headSize += kept.length;
+    }
+
+    if (mp4Metadata) {
+      mp4Metadata.write(bytes);
+    } else if (mp4Metadata === undefined && headSize >= 12) {
+      // Enough to sniff the container; everything written so far is still in the head
+      const start = head();
+      mp4Metadata = detectAudioType(start)?.container === "mp4" ? createMp4MetadataCollector() : null;
+      mp4Metadata?.write(start);
+    }
+
+    tailChunks.push(bytes);
+    tailSize += bytes.length;
+    while (tailChunks.length > 1 && tailSize - tailChunks[0].length >= PROBE_TAIL_BYTES) {
+      tailSize -= tailChunks.shift()!.length;
+    }
+  }
+
+  function head(): Buffer {
+    return Buffer.concat(headChunks, headSize);
+  }
+
+  /**
+   * Whole-file probe for files that fit in the head. Larger WAV and Ogg files are measured exactly
+   * from their headers and last page, MP3 by extrapolating its frames, MP4 from its moov and moof
+   * boxes wherever they were, and WebM from its header and the last cluster in the tail.
+   */
+  function probe(): AudioProbe | null {
+    const start = head();
+    if (size <= start.length) {
+      return probeAudio(start);
+    }
+
+    try {
+      switch (detectAudioType(start)?.container) {
+        case "wav":
+          return probeWav(start, size);
+        case "mp3":
+          return probeMp3(start, size);
+        case "ogg":
+          return probeOgg(start, Buffer.concat(tailChunks, tailSize));
+        case "mp4":
+          return (mp4Metadata && probeMp4(mp4Metadata.boxes())) || probeMp4(start);
+        case "webm":
+          return probeWebm(start, Buffer.concat(tailChunks, tailSize));
+        default:
+          return probeAudio(start);
+      }
+    } catch (error) {
+      console.error("Audio probe failed:", error);
+      return null;
+    }
+  }
+
+  return {
+    write,
+    get size() {
+      return size;
+    },
+    head,
+    probe,
+  };
+}
+
+/**
+ * Check measured audio against the submission limits; returns an error message or null
+ */
+export function getAudioProbeError(probe: AudioProbe | null): string | null {
+  if (!probe) {
+    return "Could not read audio file. Please upload .mp3, .wav, .mp4, .m4a, .ogg, or .webm files";
+  }
+  if (!probe.channels || probe.sampleRate < MIN_SAMPLE_RATE) {
+    return `Audio sample rate is too low (${probe.sampleRate} Hz)`;
+  }
+  if (probe.duration < MIN_DURATION_SECONDS) {
+    return `Audio duration must be at least 1 minute (60 seconds). Measured ${probe.duration.toFixed(1)} seconds`;
+  }
+  return null;
+}
+
+/**
+ * Short human-readable summary, e.g. "opus (webm) • 48 kHz • mono"
+ */
+export function formatAudioProbe(probe: AudioProbe): string {
+  const channels = probe.channels === 1 ? "mono" : probe.channels === 2 ? "stereo" : `${probe.channels} ch`;
+  return `${probe.codec} (${probe.container}) • ${(probe.sampleRate / 1000).toFixed(1).replace(/\.0$/, "")} kHz • ${channels}`;
+}
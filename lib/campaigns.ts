@@ -0,0 +1,183 @@
+import { getScript, type ReadingScript } from "@/lib/scripts";
+import { getEnhancementPreset, type EnhancementPreset } from "@/lib/enhancement-presets";
+import { RECORDER_ENGINES, type RecorderEngine, type RecorderSettings } from "@/lib/pcm-capture";
+
+/**
+ * Copy shown once a recording has been submitted
+ */
+export interface SuccessCopy {
+  /** Shown under "Thanks {name}!" */
+  message: string;
+  /** Shown under the email field */
+  emailNotice: string;
+}
+
+/**
+ * One event the demo runs at; every stored file, voice and notification is tagged with its id
+ */
+export interface Campaign {
+  id: string;
+  /** Event name shown on the page, e.g. "CES 2026" */
+  eventName: string;
+  /** Short label used in notification headers, e.g. "CES Demo" */
+  label: string;
+  /** Storage key prefix for raw and enhanced audio, ending in "/" */
+  storagePrefix: string;
+  /** Prefix for cloned voice names so leftovers can be traced to their event */
+  voiceNamePrefix: string;
+  /** Name of the env var holding this campaign's Slack webhook; falls back to SLACK_WEBHOOK_URL */
+  slackWebhookEnv?: string;
+  /** Script read unless the page asks for another one */
+  scriptId: string;
+  /** Enhancement preset used unless the request asks for another one */
+  presetId: string;
+  /** Capture engine for in-page recordings; falls back to RECORDER_ENGINE and RECORDER_SAMPLE_RATE */
+  recorder?: RecorderSettings;
+  successCopy: SuccessCopy;
+}
+
+export const CAMPAIGNS: Campaign[] = [
+  {
+    id: "ces-2026",
+    eventName: "CES 2026",
+    label: "CES Demo",
+    storagePrefix: "ces-demo-audio/",
+    voiceNamePrefix: "ces-demo-",
+    scriptId: "calm-confidence",
+    presetId: "energized",
+    successCopy: {
+      message: "We will email you once we are ready with your AI voice model.",
+      emailNotice:
+        "We will use this email to inform you when your voice model is ready for demonstration at our booth at CES 2026.",
+    },
+  },
+  {
+    id: "web-summit-2026",
+    eventName: "Web Summit 2026",
+    label: "Web Summit Demo",
+    storagePrefix: "web-summit-2026-audio/",
+    voiceNamePrefix: "web-summit-2026-",
+    slackWebhookEnv: "SLACK_WEBHOOK_URL_WEB_SUMMIT",
+    scriptId: "morning-market",
+    presetId: "energized",
+    successCopy: {
+      message: "Come back to our booth in a few minutes to hear your AI voice model.",
+      emailNotice:
+        "We will use this email to let you know when your voice model is ready at our booth at Web Summit 2026.",
+    },
+  },
+];
+
+function isValidRecorder({ engine, sampleRate }: RecorderSettings): boolean {
+  return (
+    RECORDER_ENGINES.includes(engine) &&
+    (sampleRate === undefined ||
+      (Number.isInteger(sampleRate) && sampleRate >= 8000 && sampleRate <= 96000))
+  );
+}
+
+/**
+ * Fail fast on a malformed registry rather than when the first upload arrives
+ */
+function validateCampaigns(campaigns: Campaign[]): void {
+  const ids = new Set<string>();
+  const prefixes = new Set<string>();
+
+  for (const campaign of campaigns) {
+    if (!/^[a-z0-9-]+$/.test(campaign.id)) {
+      throw new Error(`Invalid campaign id "${campaign.id}"`);
+    }
+    if (ids.has(campaign.id)) {
+      throw new Error(`Duplicate campaign id "${campaign.id}"`);
+    }
+    ids.add(campaign.id);
+
+    if (!/^[a-z0-9-]+\/$/.test(campaign.storagePrefix)) {
+      throw new Error(`Campaign "${campaign.id}" storage prefix must look like "name/"`);
+    }
+    if (prefixes.has(campaign.storagePrefix)) {
+      throw new Error(`Campaign "${campaign.id}" shares its storage prefix with another campaign`);
+    }
+    prefixes.add(campaign.storagePrefix);
+
+    if (!/^[a-z0-9-]+$/.test(campaign.voiceNamePrefix)) {
+      throw new Error(`Campaign "${campaign.id}" has an invalid voice name prefix`);
+    }
+    if (!getScript(campaign.scriptId)) {
+      throw new Error(`Campaign "${campaign.id}" uses unknown script "${campaign.scriptId}"`);
+    }
+    if (!getEnhancementPreset(campaign.presetId)) {
+      throw new Error(`Campaign "${campaign.id}" uses unknown preset "${campaign.presetId}"`);
+    }
+    if (campaign.recorder && !isValidRecorder(campaign.recorder)) {
+      throw new Error(`Campaign "${campaign.id}" has an invalid recorder engine or sample rate`);
+    }
+  }
+}
+
+validateCampaigns(CAMPAIGNS);
+
+/**
+ * Look up a campaign by id
+ */
+export function getCampaign(id: string | null | undefined): Campaign | null {
+  return CAMPAIGNS.find((campaign) => campaign.id === id) || null;
+}
+
+/**
+ * The campaign used when none is requested, from DEFAULT_CAMPAIGN_ID or the first registered one
+ */
+export function getDefaultCampaign(): Campaign {
+  return getCampaign(process.env.DEFAULT_CAMPAIGN_ID) || CAMPAIGNS[0];
+}
+
+/**
+ * The requested script, or the campaign's own when none is requested.
+ * Returns null for an unknown script id.
+ */
+export function getCampaignScript(
+  campaign: Campaign,
+  scriptId: string | null | undefined
+): ReadingScript | null {
+  return scriptId ? getScript(scriptId) : getScript(campaign.scriptId);
+}
+
+/**
+ * The requested enhancement preset, or the campaign's own when none is requested.
+ * Returns null for an unknown preset id.
+ */
+export function getCampaignPreset(
+  campaign: Campaign,
+  presetId: string | null | undefined
+): EnhancementPreset | null {
+  return presetId ? getEnhancementPreset(presetId) : getEnhancementPreset(campaign.presetId);
+}
+
+/**
+ * Slack webhook for a campaign's notifications
+ */
+export function getCampaignSlackWebhookUrl(campaign: Campaign | undefined): string | undefined {
+  const campaignUrl = campaign?.slackWebhookEnv ? process.env[campaign.slackWebhookEnv] : undefined;
+  return campaignUrl || process.env.SLACK_WEBHOOK_URL;
+}
+
+/**
+ * How a campaign's page records: its own settings, or the RECORDER_ENGINE and RECORDER_SAMPLE_RATE defaults
+ */
+export function getCampaignRecorder(campaign: Campaign): RecorderSettings {
+  if (campaign.recorder) {
+    return campaign.recorder;
+  }
+
+  const settings: RecorderSettings = {
+    engine: (process.env.RECORDER_ENGINE as RecorderEngine) || "media-recorder",
+  };
+  if (process.env.RECORDER_SAMPLE_RATE) {
+    settings.sampleRate = Number(process.env.RECORDER_SAMPLE_RATE);
+  }
+  if (!isValidRecorder(settings)) {
+    console.warn("Ignoring invalid RECORDER_ENGINE or RECORDER_SAMPLE_RATE; recording with MediaRecorder");
+    return { engine: "media-recorder" };
+  }
+  return settings;
+}
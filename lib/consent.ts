@@ -0,0 +1,89 @@
+import type { NextRequest } from "next/server";
+import type { Campaign } from "@/lib/campaigns";
+
+/**
+ * One published version of the consent text. Never edit a released version; add a new one instead.
+ */
+export interface ConsentTerms {
+  version: string;
+  /** "{event}" is replaced with the campaign's event name */
+  text: string;
+}
+
+/**
+ * What a participant agreed to, and when and from where; stored next to their raw audio
+ */
+export interface ConsentRecord {
+  version: string;
+  /** Consent text exactly as shown */
+  text: string;
+  campaignId: string;
+  acceptedAt: string;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+export const CONSENT_TERMS: ConsentTerms[] = [
+  {
+    version: "2026-01",
+    text: "I consent to my voice being uploaded, cloned and processed by AI for demonstration purposes at {event}. My voice will be used for a personal demonstration to me and will be stored only for the duration of the event.",
+  },
+];
+
+// Newest terms are last; only they are accepted for new recordings
+export const CURRENT_CONSENT_TERMS = CONSENT_TERMS[CONSENT_TERMS.length - 1];
+
+/**
+ * Consent text for a version as shown at a campaign's event
+ */
+export function formatConsentText(terms: ConsentTerms, campaign: Campaign): string {
+  return terms.text.replace(/\{event\}/g, campaign.eventName);
+}
+
+/**
+ * Client address from the proxy headers, or null when not behind one.
+ * Each proxy appends the address it saw to X-Forwarded-For, so it is read from the right past our own
+ * TRUSTED_PROXY_HOPS (default 1); entries further left are whatever the client chose to send.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  if (forwardedFor) {
+    const hops = forwardedFor
+      .split(",")
+      .map((hop) => hop.trim())
+      .filter(Boolean);
+    const trustedHops = parseInt(process.env.TRUSTED_PROXY_HOPS || "", 10) || 1;
+    return hops[Math.max(0, hops.length - trustedHops)] || null;
+  }
+  return request.headers.get("x-real-ip");
+}
+
+/**
+ * Build the consent record for a request that agreed to the current terms.
+ * Returns null when the submitted version is missing or out of date.
+ */
+export function createConsentRecord(
+  request: NextRequest,
+  version: string | null,
+  campaign: Campaign
+): ConsentRecord | null {
+  if (version !== CURRENT_CONSENT_TERMS.version) {
+    return null;
+  }
+
+  return {
+    version,
+    text: formatConsentText(CURRENT_CONSENT_TERMS, campaign),
+    campaignId: campaign.id,
+    acceptedAt: new Date().toISOString(),
+    ip: getClientIp(request),
+    userAgent: request.headers.get("user-agent"),
+  };
+}
+
+/**
+ * Storage key of the consent record kept beside a raw recording
+ */
+export function getConsentKey(rawKey: string): string {
+  return `${rawKey}.consent.json`;
+}
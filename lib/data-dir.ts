@@ -0,0 +1,8 @@
+import path from "path";
+
+/**
+ * Directory for file-backed state, shared by everything that persists to disk
+ */
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), ".data");
+}
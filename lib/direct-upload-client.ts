@@ -0,0 +1,163 @@
+/**
+ * Browser side of /api/uploads: send a recording straight to storage in parts, resuming after drops
+ */
+
+interface DirectUploadState {
+  id: string;
+  partSize: number;
+  partCount: number;
+  uploadedParts: number[];
+  parts: { partNumber: number; url: string }[];
+}
+
+interface DirectUploadResponse {
+  success?: boolean;
+  data?: DirectUploadState;
+  error?: string;
+}
+
+export interface DirectUploadOptions {
+  /** Resume this upload instead of starting a new one */
+  uploadId?: string;
+  /** Called once the upload exists, so a later attempt can resume it */
+  onStart?: (uploadId: string) => void;
+  /** Fraction of bytes stored so far, 0 to 1 */
+  onProgress?: (fraction: number) => void;
+}
+
+// Consecutive failed attempts, without a part getting through, before giving up
+const MAX_STALLED_ATTEMPTS = 6;
+const RETRY_DELAYS_MS = [1000, 2000, 5000, 10000, 20000, 30000];
+
+/**
+ * The upload API turned the request down; retrying the same request will not help
+ */
+class DirectUploadRejectedError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "DirectUploadRejectedError";
+  }
+}
+
+async function readState(response: Response): Promise<DirectUploadState> {
+  const body: DirectUploadResponse = await response.json().catch(() => ({}));
+  if (!response.ok || !body.data) {
+    const message = body.error || "Upload failed. Please try again.";
+    if (response.status >= 400 && response.status < 500) {
+      throw new DirectUploadRejectedError(message, response.status);
+    }
+    throw new Error(message);
+  }
+  return body.data;
+}
+
+async function startUpload(file: File): Promise<DirectUploadState> {
+  const response = await fetch("/api/uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ size: file.size, contentType: file.type }),
+  });
+  return readState(response);
+}
+
+async function getUploadState(uploadId: string): Promise<DirectUploadState> {
+  return readState(await fetch(`/api/uploads/${uploadId}`, { cache: "no-store" }));
+}
+
+/**
+ * Wait before the next attempt, or less if the browser reports it is back online
+ */
+function waitForRetry(attempt: number): Promise<void> {
+  const delay = RETRY_DELAYS_MS[Math.min(attempt, RETRY_DELAYS_MS.length) - 1];
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      window.removeEventListener("online", done);
+      resolve();
+    };
+    const timer = setTimeout(done, delay);
+    window.addEventListener("online", done);
+  });
+}
+
+function partLength(file: File, state: DirectUploadState, partNumber: number): number {
+  return Math.min(state.partSize, file.size - (partNumber - 1) * state.partSize);
+}
+
+/**
+ * Upload a file to storage through signed part links and return its upload id.
+ * Failed parts are retried with backoff against fresh links; parts already stored are skipped.
+ */
+export async function uploadDirect(file: File, options: DirectUploadOptions = {}): Promise<string> {
+  let state: DirectUploadState | null = null;
+  if (options.uploadId) {
+    try {
+      state = await getUploadState(options.uploadId);
+    } catch (error) {
+      // An expired or discarded upload cannot be resumed; start over
+      if (!(error instanceof DirectUploadRejectedError)) {
+        throw error;
+      }
+    }
+  }
+  if (!state) {
+    state = await startUpload(file);
+  }
+
+  const uploadId = state.id;
+  options.onStart?.(uploadId);
+
+  const stored = new Set<number>();
+  const reportProgress = (current: DirectUploadState) => {
+    const bytes = [...stored].reduce(
+      (total, partNumber) => total + partLength(file, current, partNumber),
+      0
+    );
+    options.onProgress?.(file.size > 0 ? bytes / file.size : 1);
+  };
+
+  let failures = 0;
+  while (true) {
+    try {
+      if (!state) {
+        state = await getUploadState(uploadId);
+      }
+      state.uploadedParts.forEach((partNumber) => stored.add(partNumber));
+      reportProgress(state);
+
+      if (state.parts.length === 0) {
+        return uploadId;
+      }
+
+      for (const part of state.parts) {
+        const start = (part.partNumber - 1) * state.partSize;
+        const response = await fetch(part.url, {
+          method: "PUT",
+          body: file.slice(start, start + state.partSize),
+        });
+        if (!response.ok) {
+          throw new Error(`Part ${part.partNumber} was not stored (${response.status})`);
+        }
+        stored.add(part.partNumber);
+        failures = 0;
+        reportProgress(state);
+      }
+    } catch (error) {
+      if (error instanceof DirectUploadRejectedError) {
+        throw error;
+      }
+      failures++;
+      if (failures >= MAX_STALLED_ATTEMPTS) {
+        throw new Error("The connection keeps dropping. Please check your network and try again.");
+      }
+      console.warn(`Upload attempt failed, retrying (${failures}/${MAX_STALLED_ATTEMPTS}):`, error);
+      await waitForRetry(failures);
+    }
+
+    // Ask the server what arrived; it also signs fresh links for anything still missing
+    state = null;
+  }
+}
@@ -0,0 +1,293 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { getDataDir } from "@/lib/data-dir";
+import { getAudioStore } from "@/lib/storage";
+
+/** Bytes per part; S3 needs at least 5MB for every part but the last */
+export const DIRECT_UPLOAD_PART_SIZE = 5 * 1024 * 1024;
+export const MAX_DIRECT_UPLOAD_SIZE = 200 * 1024 * 1024;
+
+// Staged recordings are not tied to a campaign until they are finalized
+const STAGING_PREFIX = "direct-uploads/";
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+// Routes discard a finalized upload once a submission holds its copy; until then a retry can use it again
+const FINALIZED_TTL_MS = 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+export type DirectUploadStatus = "uploading" | "completed";
+
+/**
+ * A recording the browser sends straight to storage in parts
+ */
+export interface DirectUpload {
+  id: string;
+  status: DirectUploadStatus;
+  /** Staging object the parts are joined into */
+  key: string;
+  /** The store's multipart upload id */
+  uploadId: string;
+  size: number;
+  contentType: string;
+  partSize: number;
+  partCount: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface DirectUploadPart {
+  partNumber: number;
+  url: string;
+}
+
+/**
+ * Where a direct upload stands, with fresh links for the parts still to send
+ */
+export interface DirectUploadProgress {
+  upload: DirectUpload;
+  uploadedParts: number[];
+  parts: DirectUploadPart[];
+}
+
+/**
+ * A direct upload request that cannot be carried out; status is the HTTP status to answer with
+ */
+export class DirectUploadError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "DirectUploadError";
+  }
+}
+
+let lastSweepAt = 0;
+// Finalizes in progress by upload id, so concurrent requests join the first instead of racing it
+const finalizing = new Map<string, Promise<string>>();
+
+function getUploadPath(id: string): string {
+  return path.join(getDataDir(), "direct-uploads", `${id}.json`);
+}
+
+async function writeUpload(upload: DirectUpload): Promise<void> {
+  const filePath = getUploadPath(upload.id);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  // Write to a temp file first so readers never see a partial record
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(upload, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+async function readUpload(id: string): Promise<DirectUpload | null> {
+  // Ids come from URLs; only accept what randomUUID produces
+  if (!/^[0-9a-f-]{36}$/.test(id)) {
+    return null;
+  }
+  try {
+    return JSON.parse(await fs.readFile(getUploadPath(id), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * The upload, or a 404/410 error when it is unknown or has expired
+ */
+async function getActiveUpload(id: string): Promise<DirectUpload> {
+  const upload = await readUpload(id);
+  if (!upload) {
+    throw new DirectUploadError("Upload not found", 404);
+  }
+  if (upload.expiresAt <= new Date().toISOString()) {
+    throw new DirectUploadError("Upload has expired. Please upload the recording again.", 410);
+  }
+  return upload;
+}
+
+async function signParts(upload: DirectUpload, partNumbers: number[]): Promise<DirectUploadPart[]> {
+  const store = getAudioStore();
+  return Promise.all(
+    partNumbers.map(async (partNumber) => ({
+      partNumber,
+      url: await store.getUploadPartUrl(upload.key, upload.uploadId, partNumber),
+    }))
+  );
+}
+
+/**
+ * Start a direct upload of size bytes and sign a link for every part
+ */
+export async function createDirectUpload(
+  size: number,
+  contentType: string
+): Promise<DirectUploadProgress> {
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new DirectUploadError("size must be a positive number of bytes", 400);
+  }
+  if (size > MAX_DIRECT_UPLOAD_SIZE) {
+    throw new DirectUploadError(
+      `File size exceeds ${MAX_DIRECT_UPLOAD_SIZE / (1024 * 1024)}MB limit`,
+      400
+    );
+  }
+
+  void sweepExpiredDirectUploads().catch((error) => {
+    console.error("Failed to sweep expired direct uploads:", error);
+  });
+
+  const id = randomUUID();
+  const key = `${STAGING_PREFIX}${id}`;
+  const uploadId = await getAudioStore().createMultipartUpload(key, {
+    contentType: contentType || "application/octet-stream",
+    fileName: `${id}.upload`,
+    tags: { stage: "direct-upload" },
+  });
+
+  const now = Date.now();
+  const upload: DirectUpload = {
+    id,
+    status: "uploading",
+    key,
+    uploadId,
+    size,
+    contentType,
+    partSize: DIRECT_UPLOAD_PART_SIZE,
+    partCount: Math.ceil(size / DIRECT_UPLOAD_PART_SIZE),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + UPLOAD_TTL_MS).toISOString(),
+  };
+  await writeUpload(upload);
+  console.log(`Direct upload ${id} started: ${size} bytes in ${upload.partCount} part(s)`);
+
+  const allParts = Array.from({ length: upload.partCount }, (_, index) => index + 1);
+  return { upload, uploadedParts: [], parts: await signParts(upload, allParts) };
+}
+
+/**
+ * Parts received so far, with fresh links for the rest; used to resume after a dropped connection
+ */
+export async function getDirectUploadProgress(id: string): Promise<DirectUploadProgress> {
+  const upload = await getActiveUpload(id);
+  if (upload.status === "completed") {
+    return { upload, uploadedParts: [], parts: [] };
+  }
+
+  const uploaded = await getAudioStore().listUploadedParts(upload.key, upload.uploadId);
+  const uploadedParts = uploaded.map((part) => part.partNumber);
+  const missing = Array.from({ length: upload.partCount }, (_, index) => index + 1).filter(
+    (partNumber) => !uploadedParts.includes(partNumber)
+  );
+  return { upload, uploadedParts, parts: await signParts(upload, missing) };
+}
+
+/**
+ * Check that every part arrived at the expected size and join them; returns the staged object's key.
+ * Safe to call again, or concurrently, until the upload is discarded or expires.
+ */
+export async function finalizeDirectUpload(id: string): Promise<string> {
+  const pending = finalizing.get(id);
+  if (pending) {
+    return pending;
+  }
+
+  const finalize = (async () => {
+    const upload = await getActiveUpload(id);
+    if (upload.status === "completed") {
+      return upload.key;
+    }
+
+    const store = getAudioStore();
+    const parts = await store.listUploadedParts(upload.key, upload.uploadId);
+    const complete =
+      parts.length === upload.partCount &&
+      parts.every((part, index) => {
+        const isLast = part.partNumber === upload.partCount;
+        const expectedSize = isLast
+          ? upload.size - upload.partSize * (upload.partCount - 1)
+          : upload.partSize;
+        return part.partNumber === index + 1 && part.size === expectedSize;
+      });
+    if (!complete) {
+      throw new DirectUploadError("Upload is incomplete. Resume it before finalizing.", 409);
+    }
+
+    // Recorded first, so a request that reads the record mid-join doesn't try to join the parts again
+    const uploading = { ...upload };
+    upload.status = "completed";
+    upload.expiresAt = new Date(Date.now() + FINALIZED_TTL_MS).toISOString();
+    await writeUpload(upload);
+    try {
+      await store.completeMultipartUpload(upload.key, upload.uploadId);
+    } catch (error) {
+      await writeUpload(uploading);
+      throw error;
+    }
+    return upload.key;
+  })();
+
+  finalizing.set(id, finalize);
+  try {
+    return await finalize;
+  } finally {
+    finalizing.delete(id);
+  }
+}
+
+/**
+ * Drop the staged parts or object and forget the upload
+ */
+export async function discardDirectUpload(id: string): Promise<boolean> {
+  const upload = await readUpload(id);
+  if (!upload) {
+    return false;
+  }
+
+  const store = getAudioStore();
+  if (upload.status === "completed") {
+    await store.delete(upload.key);
+  } else {
+    await store.abortMultipartUpload(upload.key, upload.uploadId);
+  }
+  await fs.rm(getUploadPath(id), { force: true });
+  return true;
+}
+
+/**
+ * Discard uploads past their expiry; runs at most every ten minutes per process
+ */
+export async function sweepExpiredDirectUploads(): Promise<number> {
+  if (Date.now() - lastSweepAt < SWEEP_INTERVAL_MS) {
+    return 0;
+  }
+  lastSweepAt = Date.now();
+
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(path.join(getDataDir(), "direct-uploads"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return 0;
+    }
+    throw error;
+  }
+
+  const now = new Date().toISOString();
+  let discarded = 0;
+  for (const fileName of fileNames.filter((name) => name.endsWith(".json"))) {
+    const upload = await readUpload(fileName.replace(/\.json$/, ""));
+    if (upload && upload.expiresAt <= now) {
+      await discardDirectUpload(upload.id);
+      discarded++;
+    }
+  }
+
+  if (discarded > 0) {
+    console.log(`Discarded ${discarded} expired direct upload(s)`);
+  }
+  return discarded;
+}
@@ -0,0 +1,333 @@
+import { getVoiceEnhancementProvider, isTransientProviderError } from "@/lib/voice-enhancement";
+import { getAudioStore, generateStorageKey, getFileSizeInMB } from "@/lib/storage";
+import { notify, wasDelivered } from "@/lib/notifications";
+import { formatAudioProbe, type AudioProbe } from "@/lib/audio-probe";
+import {
+  detectAudioType,
+  getExtensionForMimeType,
+  type DetectedAudioType,
+} from "@/lib/file-type";
+import { getRemixText, type ReadingScript } from "@/lib/scripts";
+import type { Campaign } from "@/lib/campaigns";
+import type { EnhancementPreset } from "@/lib/enhancement-presets";
+import type { ConsentRecord } from "@/lib/consent";
+import type { RecordingQualityReport } from "@/lib/recording-quality";
+import { setJobStage, recordJobEvent, STAGE_PROGRESS, type JobResult } from "@/lib/jobs";
+import { getSubmissionRepository, type SubmissionPreview } from "@/lib/submissions";
+import { sendParticipantEmail } from "@/lib/mailer";
+import { readStoredAudio } from "@/lib/raw-audio";
+
+export interface EnhancementInput {
+  name: string;
+  email: string;
+  /** Recording and consent record already in storage; the bytes are read back only to clone the voice */
+  raw: { key: string; fileName: string; size: number };
+  /** Sniffed from the uploaded bytes; the content type the sample is cloned with */
+  audioType: DetectedAudioType;
+  /** Measured server-side from the uploaded bytes */
+  probe: AudioProbe;
+  /** Script the participant read; the remix uses the same text */
+  script: ReadingScript;
+  /** Prompt and tuning for the clone and remix */
+  preset: EnhancementPreset;
+  /** Event the recording was made at; sets storage prefix, voice name and Slack channel */
+  campaign: Campaign;
+  /** Stored beside the raw audio before anything is sent to a provider */
+  consent: ConsentRecord;
+  /** The page's check of the take, when it sent one; passed on to the notifications */
+  recordingQuality?: RecordingQualityReport;
+  /** Record updated as each stage completes */
+  submissionId: string;
+  /** Set when a submission is run again; its participant already got the received email */
+  reprocessing?: boolean;
+}
+
+/**
+ * Run clone → remix → upload → notify → delete for a job, recording each stage as an event.
+ * Never throws: failures are stored on the job and sent to the notification channels.
+ */
+export async function runEnhancementJob(jobId: string, input: EnhancementInput): Promise<void> {
+  const provider = getVoiceEnhancementProvider();
+  const store = getAudioStore();
+  const submissions = getSubmissionRepository();
+  const {
+    name,
+    email,
+    raw,
+    audioType,
+    probe,
+    script,
+    preset,
+    campaign,
+    consent,
+    recordingQuality,
+    submissionId,
+    reprocessing,
+  } = input;
+  const duration = probe.duration;
+  let clonedVoiceId: string | null = null;
+
+  try {
+    // Step 1: The route streamed the raw audio into storage before any provider sees it
+    const voiceName = `${campaign.voiceNamePrefix}${name.replace(/\s+/g, "-")}-${Date.now()}`;
+    const { key: rawKey, fileName: rawFileName } = raw;
+    const tags = { campaign: campaign.id, job: jobId };
+
+    const rawDownloadUrl = await store.getSignedUrl(rawKey, rawFileName);
+    const rawFileSizeInMB = getFileSizeInMB(raw.size);
+    const storedSubmission = await submissions.markStage(submissionId, "raw_stored", {
+      rawKey,
+      rawFileName,
+    });
+    await recordJobEvent(jobId, {
+      type: "raw_uploaded",
+      fileName: rawFileName,
+      fileSize: rawFileSizeInMB,
+    });
+
+    // Let the participant know we have it; failed sends are left in the outbox for the retry queue
+    if (!reprocessing) {
+      try {
+        await sendParticipantEmail(storedSubmission, "received");
+      } catch (emailError) {
+        console.error("Failed to queue received email:", emailError);
+      }
+    }
+
+    const timestamp = new Date().toLocaleString("en-US", {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+
+    // Variables for enhanced audio (may remain null if enhancement fails)
+    let enhancedDownloadUrl: string | undefined;
+    let enhancedFileName: string | undefined;
+    let enhancedFileSizeInMB: string | undefined;
+    let enhancedDuration: number | undefined;
+    let previewCount = 0;
+    let enhancementError: string | undefined;
+
+    // Step 2: Try AI enhancement with the configured provider (Clone + Generate)
+    if (provider) {
+      try {
+        await setJobStage(jobId, "cloning", {
+          type: "cloning",
+          provider: provider.capabilities.label,
+        });
+        console.log(
+          `Cloning voice with ${provider.capabilities.label} (${preset.id} preset):`,
+          voiceName
+        );
+        // Held only for the clone request, and never more than the provider accepts
+        const sample = await readStoredAudio(rawKey, provider.capabilities.maxSampleSize);
+        if (!sample) {
+          throw new Error("Stored raw audio is missing");
+        }
+        clonedVoiceId = await provider.cloneVoice(
+          { buffer: sample, mimeType: audioType.mimeType, fileName: rawFileName },
+          voiceName,
+          { description: preset.prompt, removeBackgroundNoise: preset.removeBackgroundNoise }
+        );
+        console.log("Voice cloned successfully. ID:", clonedVoiceId);
+        await submissions.markStage(submissionId, "voice_cloned", { voiceId: clonedVoiceId });
+
+        await setJobStage(jobId, "remixing", { type: "remixing" });
+        console.log("Generating enhanced audio with voice remix...");
+        const enhancedResults = await provider.generateEnhancedAudio(clonedVoiceId, {
+          ...preset.remix,
+          prompt: preset.prompt,
+          text: getRemixText(script),
+        });
+        console.log("Enhanced audio generated successfully. Previews:", enhancedResults.length);
+        await submissions.markStage(submissionId, "remixed");
+
+        // Upload every preview; the first is delivered until an operator promotes another
+        await setJobStage(jobId, "uploading_enhanced");
+        const previews: SubmissionPreview[] = [];
+        for (const [index, enhancedResult] of enhancedResults.entries()) {
+          // Trust the bytes over the provider's reported media type
+          const enhancedType = detectAudioType(enhancedResult.buffer);
+          const enhancedExtension =
+            enhancedType?.extension || getExtensionForMimeType(enhancedResult.mimeType);
+          const preview: SubmissionPreview = {
+            key: generateStorageKey(
+              campaign.storagePrefix,
+              `${name}-preview-${index + 1}`,
+              enhancedExtension
+            ),
+            fileName: `enhanced-${voiceName}-preview-${index + 1}.${enhancedExtension}`,
+            mimeType: enhancedType?.mimeType || enhancedResult.mimeType,
+            duration: enhancedResult.duration,
+            size: enhancedResult.buffer.length,
+          };
+
+          await store.put(preview.key, enhancedResult.buffer, {
+            contentType: preview.mimeType,
+            fileName: preview.fileName,
+            tags: { ...tags, preset: preset.id, preview: String(index + 1) },
+          });
+          previews.push(preview);
+        }
+        console.log(`${previews.length} enhanced previews uploaded to ${store.id} storage`);
+
+        // Generate signed URL for the delivered preview
+        const [delivered] = previews;
+        enhancedFileName = delivered.fileName;
+        enhancedDuration = delivered.duration;
+        enhancedDownloadUrl = await store.getSignedUrl(delivered.key, delivered.fileName);
+        enhancedFileSizeInMB = getFileSizeInMB(delivered.size);
+        previewCount = previews.length;
+        await submissions.markStage(submissionId, "enhanced_stored", {
+          enhancedKey: delivered.key,
+          enhancedFileName,
+          enhancedDuration,
+          previews,
+          promotedPreview: 0,
+        });
+        await recordJobEvent(jobId, {
+          type: "enhanced_uploaded",
+          fileName: enhancedFileName,
+          fileSize: enhancedFileSizeInMB,
+          duration: enhancedDuration,
+        });
+
+        console.log("AI enhancement completed successfully");
+      } catch (enhanceError) {
+        const errorMessage = enhanceError instanceof Error ? enhanceError.message : "Unknown error";
+        enhancementError = `${provider.capabilities.label} Error: ${errorMessage}`;
+        console.error("AI enhancement failed, but raw audio is available:", enhanceError);
+        // Outages and timeouts are worth another try once the vendor recovers
+        const needsReprocessing = isTransientProviderError(enhanceError);
+        await submissions.update(submissionId, { enhancementError, needsReprocessing });
+        await recordJobEvent(jobId, { type: "enhancement_failed", error: enhancementError });
+        // Continue to send notification with raw audio only
+      }
+    } else {
+      enhancementError = "Voice enhancement provider not configured";
+      await submissions.update(submissionId, { enhancementError });
+      console.warn("Voice enhancement provider not configured - skipping AI enhancement");
+    }
+
+    // Step 3: Notify the team (ALWAYS send, even if enhancement failed)
+    await setJobStage(jobId, "notifying");
+    const notified = await notify({
+      type: "enhancement_completed",
+      submissionId,
+      campaign,
+      participant: { name, email },
+      timestamp,
+      script: { id: script.id, title: script.title },
+      preset: { id: preset.id, label: preset.label },
+      consent,
+      recordingQuality,
+      raw: {
+        url: rawDownloadUrl,
+        fileSize: rawFileSizeInMB,
+        duration,
+        format: formatAudioProbe(probe),
+      },
+      enhanced:
+        enhancedDownloadUrl && enhancedFileSizeInMB && enhancedDuration !== undefined
+          ? {
+              url: enhancedDownloadUrl,
+              fileSize: enhancedFileSizeInMB,
+              duration: enhancedDuration,
+              preview: { number: 1, count: previewCount },
+            }
+          : undefined,
+      error: enhancementError, // Include error in the notification if present
+    });
+
+    // A run with no reachable channel still delivers; the submission just lacks the stamp
+    if (wasDelivered(notified)) {
+      await submissions.markStage(submissionId, "notified");
+    }
+    await recordJobEvent(jobId, { type: "notified" });
+
+    // Step 4: Cleanup - delete cloned voice
+    if (provider && clonedVoiceId) {
+      await setJobStage(jobId, "cleaning_up");
+      try {
+        await provider.deleteVoice(clonedVoiceId);
+        console.log("Cloned voice deleted successfully");
+        await submissions.markStage(submissionId, "voice_deleted");
+      } catch (deleteError) {
+        // Not worth failing the run over; the voice reaper removes leftovers
+        console.error("Failed to delete cloned voice, leaving it for the reaper:", deleteError);
+      }
+      await recordJobEvent(jobId, { type: "cleaned_up" });
+    }
+
+    const result: JobResult = {
+      rawDownloadUrl: rawDownloadUrl,
+      rawFileName: rawFileName,
+      rawFileSize: rawFileSizeInMB,
+      enhancedDownloadUrl: enhancedDownloadUrl,
+      enhancedFileName: enhancedFileName,
+      enhancedFileSize: enhancedFileSizeInMB,
+      duration: enhancedDuration || duration,
+      voiceId: clonedVoiceId,
+      enhancementError,
+    };
+
+    await submissions.markStage(submissionId, "finished", {
+      status: enhancedDownloadUrl ? "enhanced" : "raw_only",
+    });
+
+    await recordJobEvent(jobId, { type: "completed" }, {
+      status: "completed",
+      stage: "done",
+      progress: STAGE_PROGRESS.done,
+      result,
+    });
+  } catch (error) {
+    console.error("Critical error in audio processing:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+    // Cleanup on error
+    if (provider && clonedVoiceId) {
+      try {
+        await provider.deleteVoice(clonedVoiceId);
+        console.log("Cleaned up cloned voice on error");
+      } catch (cleanupError) {
+        console.error("Failed to cleanup voice:", cleanupError);
+      }
+    }
+
+    // Send error notification; notify reports channel failures instead of throwing
+    await notify({
+      type: "enhancement_failed",
+      submissionId,
+      campaign,
+      participant: { name, email },
+      timestamp: new Date().toLocaleString("en-US", {
+        dateStyle: "medium",
+        timeStyle: "short",
+      }),
+      script: { id: script.id, title: script.title },
+      preset: { id: preset.id, label: preset.label },
+      consent,
+      recordingQuality,
+      error: `Critical Error: ${errorMessage}`,
+    });
+
+    try {
+      await submissions.markStage(submissionId, "finished", {
+        status: "failed",
+        error: errorMessage,
+      });
+    } catch (submissionError) {
+      console.error("Failed to record submission failure:", submissionError);
+    }
+
+    try {
+      await recordJobEvent(
+        jobId,
+        { type: "failed", error: errorMessage },
+        { status: "failed", error: errorMessage }
+      );
+    } catch (jobError) {
+      console.error("Failed to record job failure:", jobError);
+    }
+  }
+}
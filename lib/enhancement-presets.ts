@@ -0,0 +1,91 @@
+import type { RemixParameters } from "@/lib/voice-enhancement";
+
+/**
+ * A named way of enhancing a voice: what to ask the remix for and how hard to push it
+ */
+export interface EnhancementPreset {
+  id: string;
+  label: string;
+  /** What the preset does, for operators picking one */
+  description: string;
+  /** Sent as the cloned voice's description and as the remix voice description */
+  prompt: string;
+  remix: RemixParameters;
+  /** Ask the vendor to strip background noise from the sample before cloning */
+  removeBackgroundNoise: boolean;
+}
+
+// Voice remix rejects descriptions outside these lengths
+const MIN_PROMPT_LENGTH = 20;
+const MAX_PROMPT_LENGTH = 1000;
+
+export const ENHANCEMENT_PRESETS: EnhancementPreset[] = [
+  {
+    id: "energized",
+    label: "Energized",
+    description: "The speaker on their most energetic day, at their own pace.",
+    prompt: `Enhance this voice to sound fresh, alert, and energized while preserving the speaker's identity and timbre. Add natural brightness, lifted energy, and clear presence, as if well-rested and engaged. Crucially: maintain steady, consistent pacing throughout - no rushing, no change in tempo. Use stable pitch, smooth rhythm, natural pauses, and clean articulation. The voice should feel like the same person on their most energetic day, but with the same tempo and flow as the original voice.`,
+    remix: { loudness: 0.5, guidanceScale: 3, promptStrength: 0.7 },
+    removeBackgroundNoise: false,
+  },
+  {
+    id: "calm-narrator",
+    label: "Calm narrator",
+    description: "A warm, unhurried storyteller read, suited to longer passages.",
+    prompt: `Enhance this voice into a calm, warm narrator while preserving the speaker's identity and timbre. Soften harsh edges, add gentle resonance and a relaxed, intimate presence, as if reading a story to a small audience. Keep the pacing slow and even, with unhurried pauses between sentences and smooth, rounded articulation. The voice should feel like the same person at their most relaxed and reassuring.`,
+    remix: { loudness: 0.3, guidanceScale: 2.5, promptStrength: 0.6 },
+    removeBackgroundNoise: true,
+  },
+  {
+    id: "broadcast",
+    label: "Broadcast",
+    description: "A polished, close-miked radio presenter sound for noisy booth recordings.",
+    prompt: `Enhance this voice to sound like a polished broadcast presenter while preserving the speaker's identity and timbre. Add a full, close-microphone warmth, crisp consonants and confident projection, with a clean studio sound free of room echo and background noise. Keep the pacing steady and deliberate, with clear emphasis on key words. The voice should feel like the same person presenting on air.`,
+    remix: { loudness: 0.7, guidanceScale: 4, promptStrength: 0.8 },
+    removeBackgroundNoise: true,
+  },
+];
+
+/**
+ * Fail fast on a malformed registry rather than at remix time
+ */
+function validatePresets(presets: EnhancementPreset[]): void {
+  const ids = new Set<string>();
+
+  for (const preset of presets) {
+    if (!/^[a-z0-9-]+$/.test(preset.id)) {
+      throw new Error(`Invalid preset id "${preset.id}"`);
+    }
+    if (ids.has(preset.id)) {
+      throw new Error(`Duplicate preset id "${preset.id}"`);
+    }
+    ids.add(preset.id);
+
+    const promptLength = preset.prompt.trim().length;
+    if (promptLength < MIN_PROMPT_LENGTH || promptLength > MAX_PROMPT_LENGTH) {
+      throw new Error(
+        `Preset "${preset.id}" prompt is ${promptLength} characters; it must be ${MIN_PROMPT_LENGTH}-${MAX_PROMPT_LENGTH}`
+      );
+    }
+
+    const { loudness, guidanceScale, promptStrength } = preset.remix;
+    if (!(loudness >= -1 && loudness <= 1)) {
+      throw new Error(`Preset "${preset.id}" loudness must be between -1 and 1`);
+    }
+    if (!(guidanceScale > 0 && guidanceScale <= 100)) {
+      throw new Error(`Preset "${preset.id}" guidance scale must be above 0 and at most 100`);
+    }
+    if (!(promptStrength >= 0 && promptStrength <= 1)) {
+      throw new Error(`Preset "${preset.id}" prompt strength must be between 0 and 1`);
+    }
+  }
+}
+
+validatePresets(ENHANCEMENT_PRESETS);
+
+/**
+ * Look up a preset by id
+ */
+export function getEnhancementPreset(id: string | null | undefined): EnhancementPreset | null {
+  return ENHANCEMENT_PRESETS.find((preset) => preset.id === id) || null;
+}
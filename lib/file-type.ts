@@ -0,0 +1,79 @@
+export type AudioContainer = "webm" | "ogg" | "mp4" | "mp3" | "wav";
+
+/**
+ * Audio type identified from the file's own bytes
+ */
+export interface DetectedAudioType {
+  container: AudioContainer;
+  mimeType: string;
+  extension: string;
+}
+
+const WEBM: DetectedAudioType = { container: "webm", mimeType: "audio/webm", extension: "webm" };
+const MATROSKA: DetectedAudioType = { container: "webm", mimeType: "audio/x-matroska", extension: "mka" };
+const OGG: DetectedAudioType = { container: "ogg", mimeType: "audio/ogg", extension: "ogg" };
+const MP4: DetectedAudioType = { container: "mp4", mimeType: "audio/mp4", extension: "m4a" };
+const MP3: DetectedAudioType = { container: "mp3", mimeType: "audio/mpeg", extension: "mp3" };
+const WAV: DetectedAudioType = { container: "wav", mimeType: "audio/wav", extension: "wav" };
+
+const EXTENSIONS_BY_MIME_TYPE: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/x-matroska": "mka",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+};
+
+/**
+ * Whether the bytes at offset look like an MPEG audio frame header (rejects AAC ADTS, which has layer 0)
+ */
+function isMpegFrameSync(buffer: Buffer, offset: number): boolean {
+  if (offset + 4 > buffer.length) return false;
+  const layerBits = (buffer[offset + 1] >> 1) & 0x3;
+  const versionBits = (buffer[offset + 1] >> 3) & 0x3;
+  const bitrateIndex = buffer[offset + 2] >> 4;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x3;
+  return (
+    buffer[offset] === 0xff &&
+    (buffer[offset + 1] & 0xe0) === 0xe0 &&
+    layerBits !== 0 &&
+    versionBits !== 1 &&
+    bitrateIndex !== 0xf &&
+    sampleRateIndex !== 0x3
+  );
+}
+
+/**
+ * Sniff the container from its signature: EBML, OggS, ftyp, ID3/MPEG frame sync or RIFF/WAVE.
+ * Returns null for anything that is not a supported audio file, whatever the browser claimed.
+ */
+export function detectAudioType(buffer: Buffer): DetectedAudioType | null {
+  if (buffer.length < 12) return null;
+
+  // EBML header; the DocType near the start tells WebM from other Matroska files
+  if (buffer.readUInt32BE(0) === 0x1a45dfa3) {
+    const header = buffer.toString("latin1", 0, Math.min(buffer.length, 64));
+    return header.includes("webm") ? WEBM : MATROSKA;
+  }
+
+  if (buffer.toString("latin1", 0, 4) === "OggS") return OGG;
+
+  // ISO base media: any brand, since browsers record audio-only files under video brands too
+  if (buffer.toString("latin1", 4, 8) === "ftyp") return MP4;
+
+  if (buffer.toString("latin1", 0, 4) === "RIFF" && buffer.toString("latin1", 8, 12) === "WAVE") {
+    return WAV;
+  }
+
+  if (buffer.toString("latin1", 0, 3) === "ID3" || isMpegFrameSync(buffer, 0)) return MP3;
+
+  return null;
+}
+
+/**
+ * File extension for a MIME type produced by us or a provider, defaulting to .bin
+ */
+export function getExtensionForMimeType(mimeType: string): string {
+  return EXTENSIONS_BY_MIME_TYPE[mimeType.split(";")[0].trim()] || "bin";
+}
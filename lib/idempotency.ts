@@ -0,0 +1,93 @@
+import { createHash, type Hash } from "crypto";
+import {
+  getSubmissionRepository,
+  type Submission,
+  type SubmissionIdentity,
+} from "@/lib/submissions";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * Result of claiming a submission: either freshly created or an earlier one for the same take
+ */
+export type SubmissionClaim =
+  | { outcome: "created"; submission: Submission }
+  | { outcome: "replayed"; submission: Submission }
+  | { outcome: "conflict"; submission: Submission };
+
+// Claims still being created in this process, so a double-click can't slip past the lookup
+const pendingClaims = new Map<string, Promise<SubmissionClaim>>();
+
+/**
+ * Content hash of a recording, fed chunk by chunk as it streams in; digest it as hex
+ */
+export function createContentHash(): Hash {
+  return createHash("sha256");
+}
+
+/**
+ * Read the client's idempotency key; undefined when absent, null when malformed
+ */
+export function parseIdempotencyKey(value: string | null): string | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+  return /^[A-Za-z0-9_.:-]{8,128}$/.test(value) ? value : null;
+}
+
+async function findReusableSubmission(identity: SubmissionIdentity): Promise<SubmissionClaim | null> {
+  const duplicates = await getSubmissionRepository().findDuplicates(identity);
+
+  // A failed run releases its key so the participant can simply try again
+  const original = duplicates.find((submission) => submission.status !== "failed");
+  if (!original) {
+    return null;
+  }
+
+  // Same key but different audio means the client reused a key for a new take
+  if (
+    identity.idempotencyKey &&
+    original.idempotencyKey === identity.idempotencyKey &&
+    original.contentHash !== identity.contentHash
+  ) {
+    return { outcome: "conflict", submission: original };
+  }
+
+  return { outcome: "replayed", submission: original };
+}
+
+/**
+ * Return the submission already made for this take, or run create() to make one.
+ * Matches on the idempotency key or the content hash, whichever is seen first.
+ */
+export async function claimSubmission(
+  identity: SubmissionIdentity,
+  create: () => Promise<Submission>
+): Promise<SubmissionClaim> {
+  const claimKeys = [`hash:${identity.contentHash}`];
+  if (identity.idempotencyKey) {
+    claimKeys.push(`key:${identity.idempotencyKey}`);
+  }
+
+  // Wait for the concurrent request to finish, then look again now its submission is stored
+  const pending = claimKeys.map((key) => pendingClaims.get(key)).find(Boolean);
+  if (pending) {
+    await pending.catch(() => undefined);
+    return claimSubmission(identity, create);
+  }
+
+  const claim = (async (): Promise<SubmissionClaim> => {
+    const existing = await findReusableSubmission(identity);
+    if (existing) {
+      return existing;
+    }
+    return { outcome: "created", submission: await create() };
+  })();
+
+  claimKeys.forEach((key) => pendingClaims.set(key, claim));
+  try {
+    return await claim;
+  } finally {
+    claimKeys.forEach((key) => pendingClaims.delete(key));
+  }
+}
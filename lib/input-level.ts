@@ -0,0 +1,171 @@
+/**
+ * Live microphone level analysis for the recorder: a meter reading plus warnings about
+ * clipping, silence and background noise
+ */
+
+export type InputWarning = "clipping" | "silence" | "noisy";
+
+/**
+ * One analysis of the latest slice of input
+ */
+export interface InputLevelReport {
+  /** RMS level in dBFS */
+  rmsDb: number;
+  /** Loudest sample in dBFS */
+  peakDb: number;
+  /** Meter fill from 0 to 1 */
+  meter: number;
+  /** Active warnings; clipping stays on for the rest of the take once it happens */
+  warnings: InputWarning[];
+  clipCount: number;
+  /** How long the input has been below the silence threshold */
+  silentSeconds: number;
+  /** Estimated background level in dBFS; null until a few seconds have been heard */
+  noiseFloorDb: number | null;
+  /** Set once, on the reading where the input has been silent long enough to pause the recording */
+  autoPause: boolean;
+}
+
+export interface InputLevelMonitor {
+  /** Keep the meter moving but stop counting silence, e.g. while the recording is paused */
+  pause(): void;
+  resume(): void;
+  stop(): void;
+}
+
+const READING_INTERVAL_MS = 50;
+// Samples this close to full scale are treated as clipped
+const CLIP_LEVEL = 0.99;
+// Clipped readings closer together than this count as one clip
+const CLIP_DEBOUNCE_MS = 500;
+const SILENCE_DB = -55;
+const SILENCE_WARNING_SECONDS = 3;
+export const AUTO_PAUSE_SECONDS = 8;
+// The background level is the quietest tenth of the last ten seconds of readings
+const NOISE_WINDOW_MS = 10_000;
+const NOISE_PERCENTILE = 0.1;
+const NOISE_MIN_READINGS = 60;
+const NOISY_FLOOR_DB = -40;
+// Meter scale; quieter input shows as empty
+const METER_FLOOR_DB = -60;
+
+function toDb(value: number): number {
+  return value > 0 ? 20 * Math.log10(value) : -Infinity;
+}
+
+/**
+ * Turns raw RMS and peak readings into meter levels and warnings. Kept apart from the Web Audio
+ * plumbing so the thresholds can be reasoned about on their own.
+ */
+export function createInputLevelTracker() {
+  let clipCount = 0;
+  let lastClipAt = -Infinity;
+  let silentSince: number | null = null;
+  let autoPaused = false;
+  let readings: { at: number; rmsDb: number }[] = [];
+
+  return {
+    update(rms: number, peak: number, at: number, counting: boolean): InputLevelReport {
+      const rmsDb = toDb(rms);
+      const peakDb = toDb(peak);
+      const meter = Math.max(0, Math.min(1, 1 - rmsDb / METER_FLOOR_DB));
+
+      if (counting && peak >= CLIP_LEVEL) {
+        if (at - lastClipAt > CLIP_DEBOUNCE_MS) {
+          clipCount++;
+        }
+        lastClipAt = at;
+      }
+
+      let silentSeconds = 0;
+      let autoPause = false;
+      if (counting && rmsDb < SILENCE_DB) {
+        silentSince ??= at;
+        silentSeconds = (at - silentSince) / 1000;
+        if (silentSeconds >= AUTO_PAUSE_SECONDS && !autoPaused) {
+          autoPaused = true;
+          autoPause = true;
+        }
+      } else {
+        silentSince = null;
+        autoPaused = false;
+      }
+
+      let noiseFloorDb: number | null = null;
+      if (counting) {
+        readings.push({ at, rmsDb });
+        readings = readings.filter((reading) => at - reading.at <= NOISE_WINDOW_MS);
+        if (readings.length >= NOISE_MIN_READINGS) {
+          const sorted = readings.map((reading) => reading.rmsDb).sort((a, b) => a - b);
+          noiseFloorDb = sorted[Math.floor(sorted.length * NOISE_PERCENTILE)];
+        }
+      }
+
+      const warnings: InputWarning[] = [];
+      if (clipCount > 0) {
+        warnings.push("clipping");
+      }
+      if (silentSeconds >= SILENCE_WARNING_SECONDS) {
+        warnings.push("silence");
+      }
+      if (noiseFloorDb !== null && noiseFloorDb > NOISY_FLOOR_DB) {
+        warnings.push("noisy");
+      }
+
+      return { rmsDb, peakDb, meter, warnings, clipCount, silentSeconds, noiseFloorDb, autoPause };
+    },
+
+    /** Forget silence and background readings, e.g. after a pause */
+    resetSilence() {
+      silentSince = null;
+      autoPaused = false;
+      readings = [];
+    },
+  };
+}
+
+/**
+ * Attach an analyser to a microphone stream and report its level every 50ms.
+ * The stream's tracks are left for the caller to stop.
+ */
+export function startInputLevelMonitor(
+  stream: MediaStream,
+  onReport: (report: InputLevelReport) => void
+): InputLevelMonitor {
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+  void context.resume();
+
+  const samples = new Float32Array(analyser.fftSize);
+  const tracker = createInputLevelTracker();
+  let counting = true;
+
+  const timer = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sumOfSquares = 0;
+    let peak = 0;
+    for (const sample of samples) {
+      sumOfSquares += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    onReport(tracker.update(Math.sqrt(sumOfSquares / samples.length), peak, Date.now(), counting));
+  }, READING_INTERVAL_MS);
+
+  return {
+    pause: () => {
+      counting = false;
+    },
+    resume: () => {
+      tracker.resetSilence();
+      counting = true;
+    },
+    stop: () => {
+      clearInterval(timer);
+      source.disconnect();
+      void context.close();
+    },
+  };
+}
@@ -0,0 +1,190 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { getDataDir } from "@/lib/data-dir";
+import {
+  publishPipelineEvent,
+  type PipelineEvent,
+  type PipelineEventPayload,
+} from "@/lib/pipeline-events";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export type JobStage =
+  | "queued"
+  | "uploading_raw"
+  | "cloning"
+  | "remixing"
+  | "uploading_enhanced"
+  | "notifying"
+  | "cleaning_up"
+  | "done";
+
+/**
+ * Overall progress reported when a stage starts
+ */
+export const STAGE_PROGRESS: Record<JobStage, number> = {
+  queued: 0,
+  uploading_raw: 5,
+  cloning: 20,
+  remixing: 40,
+  uploading_enhanced: 75,
+  notifying: 85,
+  cleaning_up: 95,
+  done: 100,
+};
+
+export interface JobResult {
+  rawDownloadUrl: string;
+  rawFileName: string;
+  rawFileSize: string;
+  enhancedDownloadUrl?: string;
+  enhancedFileName?: string;
+  enhancedFileSize?: string;
+  duration: number;
+  voiceId: string | null;
+  enhancementError?: string;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  stage: JobStage;
+  progress: number;
+  participant: {
+    name: string;
+    email: string;
+  };
+  campaignId: string;
+  result?: JobResult;
+  error?: string;
+  events: PipelineEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+function getJobPath(id: string): string {
+  return path.join(getDataDir(), "jobs", `${id}.json`);
+}
+
+async function writeJob(job: Job): Promise<void> {
+  const filePath = getJobPath(job.id);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  // Write to a temp file first so readers never see a partial job
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(job, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Create and persist a new queued job
+ */
+export async function createJob(
+  participant: Job["participant"],
+  campaignId: string
+): Promise<Job> {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    status: "queued",
+    stage: "queued",
+    progress: 0,
+    participant,
+    campaignId,
+    events: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await writeJob(job);
+  return job;
+}
+
+/**
+ * Load a job by id, or null if it does not exist
+ */
+export async function getJob(id: string): Promise<Job | null> {
+  // Job ids are UUIDs; reject anything else before touching the filesystem
+  if (!/^[0-9a-f-]{36}$/i.test(id)) {
+    return null;
+  }
+
+  try {
+    const contents = await fs.readFile(getJobPath(id), "utf8");
+    return JSON.parse(contents) as Job;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply a partial update to a job and persist it
+ */
+export async function updateJob(
+  id: string,
+  changes: Partial<Omit<Job, "id" | "createdAt">>
+): Promise<Job> {
+  const job = await getJob(id);
+  if (!job) {
+    throw new Error(`Job not found: ${id}`);
+  }
+
+  const updated: Job = {
+    ...job,
+    ...changes,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await writeJob(updated);
+  return updated;
+}
+
+/**
+ * Mark a job as running the given stage, optionally recording the event that started it
+ */
+export async function setJobStage(
+  id: string,
+  stage: JobStage,
+  event?: PipelineEventPayload
+): Promise<Job> {
+  const changes = {
+    status: "running" as const,
+    stage,
+    progress: STAGE_PROGRESS[stage],
+  };
+
+  return event ? recordJobEvent(id, event, changes) : updateJob(id, changes);
+}
+
+/**
+ * Append a pipeline event to a job and publish it to open event streams
+ */
+export async function recordJobEvent(
+  id: string,
+  payload: PipelineEventPayload,
+  changes: Partial<Omit<Job, "id" | "createdAt" | "events">> = {}
+): Promise<Job> {
+  const job = await getJob(id);
+  if (!job) {
+    throw new Error(`Job not found: ${id}`);
+  }
+
+  const event: PipelineEvent = {
+    ...payload,
+    seq: job.events.length + 1,
+    progress: changes.progress ?? job.progress,
+    at: new Date().toISOString(),
+  };
+
+  const updated = await updateJob(id, {
+    ...changes,
+    events: [...job.events, event],
+  });
+
+  publishPipelineEvent(id, event);
+  return updated;
+}
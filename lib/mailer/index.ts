@@ -0,0 +1,149 @@
+import path from "path";
+import { getDataDir } from "@/lib/data-dir";
+import { getCampaign } from "@/lib/campaigns";
+import type { Submission } from "@/lib/submissions";
+import { createOutbox } from "./outbox";
+import { createSmtpTransport } from "./smtp";
+import { createConsoleTransport, createFileTransport } from "./local";
+import { renderEmail } from "./templates";
+import type { EmailRecord, EmailTemplate, MailTransport, Outbox } from "./types";
+
+export type {
+  EmailMessage,
+  EmailRecord,
+  EmailStatus,
+  EmailTemplate,
+  MailTransport,
+} from "./types";
+export { MAX_EMAIL_ATTEMPTS } from "./outbox";
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplate, string> = {
+  received: "Recording received",
+  ready: "AI voice ready",
+};
+
+let cachedTransport: MailTransport | undefined;
+let cachedOutbox: Outbox | undefined;
+let queueRun: Promise<EmailQueueReport> | null = null;
+
+export interface EmailQueueReport {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+/**
+ * Resolve the mail transport from MAIL_TRANSPORT.
+ * Defaults to SMTP when SMTP_URL is set, otherwise writes emails under `emails-out` in the data dir.
+ */
+export function getMailTransport(): MailTransport {
+  if (cachedTransport) {
+    return cachedTransport;
+  }
+
+  const transportId = process.env.MAIL_TRANSPORT || (process.env.SMTP_URL ? "smtp" : "file");
+
+  switch (transportId) {
+    case "smtp":
+      if (!process.env.SMTP_URL) {
+        throw new Error("SMTP mail transport is not configured: missing SMTP_URL");
+      }
+      cachedTransport = createSmtpTransport(process.env.SMTP_URL);
+      break;
+    case "file":
+      cachedTransport = createFileTransport(
+        process.env.MAIL_FILE_DIR || path.join(getDataDir(), "emails-out")
+      );
+      break;
+    case "console":
+      cachedTransport = createConsoleTransport();
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transportId}"`);
+  }
+
+  return cachedTransport;
+}
+
+function getOutbox(): Outbox {
+  if (!cachedOutbox) {
+    cachedOutbox = createOutbox(path.join(getDataDir(), "emails"));
+  }
+  return cachedOutbox;
+}
+
+/**
+ * Render, record and send a participant email.
+ * A failed send stays pending in the outbox for the retry queue instead of throwing.
+ */
+export async function sendParticipantEmail(
+  submission: Submission,
+  template: EmailTemplate,
+  links: { enhancedUrl?: string; rawUrl?: string } = {}
+): Promise<EmailRecord> {
+  const to = submission.participant.email;
+  if (!to) {
+    throw new Error(`Submission ${submission.id} has no participant email`);
+  }
+
+  const campaign = getCampaign(submission.campaignId);
+  const rendered = renderEmail(template, {
+    name: submission.participant.name,
+    eventName: campaign?.eventName || "our booth",
+    ...links,
+  });
+
+  const outbox = getOutbox();
+  const record = await outbox.queue(submission.id, template, {
+    from: process.env.MAIL_FROM || "Mirage Voice Demo <no-reply@localhost>",
+    to,
+    ...rendered,
+  });
+  return outbox.deliver(record, getMailTransport());
+}
+
+/**
+ * Every email recorded for a submission, newest first
+ */
+export async function listSubmissionEmails(submissionId: string): Promise<EmailRecord[]> {
+  return (await getOutbox().list()).filter((record) => record.submissionId === submissionId);
+}
+
+/**
+ * Retry pending emails whose next attempt is due.
+ * Runs once at a time per process; a second caller waits for the run in progress.
+ */
+export function processEmailQueue(): Promise<EmailQueueReport> {
+  if (!queueRun) {
+    queueRun = (async () => {
+      const outbox = getOutbox();
+      const now = new Date().toISOString();
+      const due = (await outbox.list()).filter(
+        (record) => record.status === "pending" && record.nextAttemptAt && record.nextAttemptAt <= now
+      );
+      const report: EmailQueueReport = { sent: 0, retrying: 0, failed: 0 };
+
+      for (const record of due) {
+        const updated = await outbox.deliver(record, getMailTransport());
+        if (updated.status === "sent") {
+          report.sent++;
+        } else if (updated.status === "failed") {
+          report.failed++;
+        } else {
+          report.retrying++;
+        }
+      }
+
+      if (due.length > 0) {
+        console.log(
+          `Email queue: ${report.sent} sent, ${report.retrying} retrying, ${report.failed} failed`
+        );
+      }
+      return report;
+    })().finally(() => {
+      queueRun = null;
+    });
+  }
+
+  return queueRun;
+}
@@ -0,0 +1,35 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { EmailMessage, MailTransport } from "./types";
+
+/**
+ * Create a transport that writes each message to a directory instead of sending it.
+ * The plain-text and HTML bodies are saved side by side so they can be opened directly.
+ */
+export function createFileTransport(dir: string): MailTransport {
+  return {
+    id: "file",
+    async send(message: EmailMessage) {
+      const messageId = `${Date.now()}-${randomUUID().slice(0, 8)}`;
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, `${messageId}.json`), JSON.stringify(message, null, 2));
+      await fs.writeFile(path.join(dir, `${messageId}.html`), message.html);
+      console.log(`Email "${message.subject}" to ${message.to} written to ${dir}/${messageId}.json`);
+      return messageId;
+    },
+  };
+}
+
+/**
+ * Create a transport that only logs messages
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    id: "console",
+    async send(message: EmailMessage) {
+      console.log(`Email to ${message.to}: ${message.subject}\n\n${message.text}`);
+      return undefined;
+    },
+  };
+}
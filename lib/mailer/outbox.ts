@@ -0,0 +1,114 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { EmailMessage, EmailRecord, EmailTemplate, MailTransport, Outbox } from "./types";
+
+// Minutes to wait before each retry; one attempt more than there are delays
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+export const MAX_EMAIL_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+// A crash between queueing and the first attempt still gets picked up after this
+const FIRST_ATTEMPT_GRACE_MS = 60_000;
+
+/**
+ * Create an outbox that keeps one JSON file per email in a directory
+ */
+export function createOutbox(dir: string): Outbox {
+  const getPath = (id: string) => path.join(dir, `${id}.json`);
+
+  async function write(record: EmailRecord): Promise<void> {
+    await fs.mkdir(dir, { recursive: true });
+
+    // Write to a temp file first so readers never see a partial record
+    const filePath = getPath(record.id);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(record, null, 2));
+    await fs.rename(tempPath, filePath);
+  }
+
+  async function list(): Promise<EmailRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const records = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) => JSON.parse(await fs.readFile(path.join(dir, file), "utf8")) as EmailRecord)
+    );
+    return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async function queue(
+    submissionId: string,
+    template: EmailTemplate,
+    message: EmailMessage
+  ): Promise<EmailRecord> {
+    const now = new Date();
+    const record: EmailRecord = {
+      id: randomUUID(),
+      submissionId,
+      template,
+      message,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(now.getTime() + FIRST_ATTEMPT_GRACE_MS).toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    await write(record);
+    return record;
+  }
+
+  async function deliver(record: EmailRecord, transport: MailTransport): Promise<EmailRecord> {
+    const attempts = record.attempts + 1;
+    let updated: EmailRecord;
+
+    try {
+      const messageId = await transport.send(record.message);
+      const now = new Date().toISOString();
+      updated = {
+        ...record,
+        status: "sent",
+        attempts,
+        nextAttemptAt: undefined,
+        lastError: undefined,
+        transport: transport.id,
+        messageId,
+        sentAt: now,
+        updatedAt: now,
+      };
+      console.log(`Email ${record.id} (${record.template}) sent via ${transport.id}`);
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : "Unknown error";
+      const delayMinutes = RETRY_DELAYS_MINUTES[attempts - 1];
+      updated = {
+        ...record,
+        status: delayMinutes === undefined ? "failed" : "pending",
+        attempts,
+        nextAttemptAt:
+          delayMinutes === undefined
+            ? undefined
+            : new Date(Date.now() + delayMinutes * 60_000).toISOString(),
+        lastError,
+        updatedAt: new Date().toISOString(),
+      };
+      console.error(
+        `Email ${record.id} (${record.template}) attempt ${attempts}/${MAX_EMAIL_ATTEMPTS} failed:`,
+        lastError
+      );
+    }
+
+    await write(updated);
+    return updated;
+  }
+
+  return { list, queue, deliver };
+}
@@ -0,0 +1,89 @@
+import type { EmailTemplate, RenderedEmail } from "./types";
+
+export interface EmailTemplateData {
+  name: string;
+  eventName: string;
+  /** Signed download links, for the "ready" email */
+  enhancedUrl?: string;
+  rawUrl?: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Wrap paragraphs in the shared email layout; paragraphs are HTML already escaped by the caller
+ */
+function layout(paragraphs: string[]): string {
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:32px;background:#ffffff;font-family:Helvetica,Arial,sans-serif;color:#000000;">
+    <div style="max-width:560px;margin:0 auto;font-size:16px;line-height:1.5;">
+${paragraphs.map((paragraph) => `      <p style="margin:0 0 16px;">${paragraph}</p>`).join("\n")}
+      <p style="margin:32px 0 0;font-size:13px;color:#737373;">Mirage Voice Demo</p>
+    </div>
+  </body>
+</html>`;
+}
+
+function link(url: string, label: string): string {
+  return `<a href="${escapeHtml(url)}" style="color:#000000;">${escapeHtml(label)}</a>`;
+}
+
+function renderReceived({ name, eventName }: EmailTemplateData): RenderedEmail {
+  return {
+    subject: `We received your recording from ${eventName}`,
+    text: [
+      `Hi ${name},`,
+      `Thanks for recording your voice with us at ${eventName}. We received your recording and are creating your AI voice model now.`,
+      "We will email you again as soon as it is ready.",
+      "Mirage Voice Demo",
+    ].join("\n\n"),
+    html: layout([
+      `Hi ${escapeHtml(name)},`,
+      `Thanks for recording your voice with us at ${escapeHtml(eventName)}. We received your recording and are creating your AI voice model now.`,
+      "We will email you again as soon as it is ready.",
+    ]),
+  };
+}
+
+function renderReady({ name, eventName, enhancedUrl, rawUrl }: EmailTemplateData): RenderedEmail {
+  if (!enhancedUrl) {
+    throw new Error('The "ready" email needs a link to the enhanced audio');
+  }
+
+  return {
+    subject: `Your AI voice from ${eventName} is ready`,
+    text: [
+      `Hi ${name},`,
+      `Your AI voice from ${eventName} is ready. Listen to it here:\n${enhancedUrl}`,
+      ...(rawUrl ? [`Your original recording:\n${rawUrl}`] : []),
+      "These links expire after a few days, so download anything you want to keep.",
+      "Mirage Voice Demo",
+    ].join("\n\n"),
+    html: layout([
+      `Hi ${escapeHtml(name)},`,
+      `Your AI voice from ${escapeHtml(eventName)} is ready. ${link(enhancedUrl, "Listen to your AI voice")}.`,
+      ...(rawUrl ? [`You can also ${link(rawUrl, "download your original recording")}.`] : []),
+      "These links expire after a few days, so download anything you want to keep.",
+    ]),
+  };
+}
+
+/**
+ * Subject, HTML and plain-text body for a participant email
+ */
+export function renderEmail(template: EmailTemplate, data: EmailTemplateData): RenderedEmail {
+  switch (template) {
+    case "received":
+      return renderReceived(data);
+    case "ready":
+      return renderReady(data);
+  }
+}
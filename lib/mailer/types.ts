@@ -0,0 +1,64 @@
+/**
+ * Emails sent to participants
+ */
+export type EmailTemplate = "received" | "ready";
+
+/**
+ * pending: queued or waiting for a retry; failed: gave up after the last attempt
+ */
+export type EmailStatus = "pending" | "sent" | "failed";
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Where emails go: an SMTP server, or a file/console stand-in for local runs
+ */
+export interface MailTransport {
+  readonly id: string;
+  /** Resolves with the transport's message id; throws when the message was not accepted */
+  send(message: EmailMessage): Promise<string | undefined>;
+}
+
+/**
+ * One participant email and every attempt to deliver it
+ */
+export interface EmailRecord {
+  id: string;
+  submissionId: string;
+  template: EmailTemplate;
+  message: EmailMessage;
+  status: EmailStatus;
+  attempts: number;
+  /** When a pending email is next picked up by the retry queue */
+  nextAttemptAt?: string;
+  lastError?: string;
+  /** Transport that accepted the message, and the id it gave it */
+  transport?: string;
+  messageId?: string;
+  sentAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Tracks every participant email, so sends can be confirmed and failures retried
+ */
+export interface Outbox {
+  /** Newest first */
+  list(): Promise<EmailRecord[]>;
+  queue(submissionId: string, template: EmailTemplate, message: EmailMessage): Promise<EmailRecord>;
+  /** Make one delivery attempt, scheduling a retry or giving up when it fails */
+  deliver(record: EmailRecord, transport: MailTransport): Promise<EmailRecord>;
+}
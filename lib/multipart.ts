@@ -0,0 +1,124 @@
+import Busboy from "busboy";
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+
+/**
+ * A file part whose contents have not been read yet
+ */
+export interface MultipartFile {
+  /** Fails with a MultipartError when the body is cut off or malformed partway through */
+  stream: AsyncIterable<Uint8Array>;
+  fileName: string;
+  mimeType: string;
+}
+
+/**
+ * A multipart/form-data body read up to its file part
+ */
+export interface MultipartUpload {
+  /** Fields sent before the file; later ones are ignored */
+  fields: Record<string, string>;
+  /** Null when the body has no part with the file field's name */
+  file: MultipartFile | null;
+  /** Stop reading the body, e.g. when answering before the file has been consumed */
+  abort(): void;
+}
+
+/**
+ * A multipart body that cannot be read; answered with 400 like other bad input
+ */
+export class MultipartError extends Error {
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "MultipartError";
+  }
+}
+
+// Plain text fields only; anything larger is not a form field we use
+const MAX_FIELD_SIZE = 64 * 1024;
+const MAX_FIELDS = 50;
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+async function* readFilePart(stream: Readable): AsyncGenerator<Uint8Array> {
+  try {
+    for await (const chunk of stream) {
+      yield chunk;
+    }
+  } catch (error) {
+    throw new MultipartError(`The upload was cut off or malformed: ${describe(error)}`);
+  }
+}
+
+/**
+ * Read form fields from a multipart body until the named file part starts, without buffering the file.
+ * Clients must send fields before the file. Resolves once the file part is reached or the body ends.
+ */
+export function readMultipartUpload(request: Request, fileField: string): Promise<MultipartUpload> {
+  return new Promise((resolve, reject) => {
+    if (!request.body) {
+      reject(new MultipartError("Request has no body"));
+      return;
+    }
+
+    let busboy: Busboy.Busboy;
+    try {
+      busboy = Busboy({
+        headers: { "content-type": request.headers.get("content-type") || "" },
+        limits: { fieldSize: MAX_FIELD_SIZE, fields: MAX_FIELDS },
+      });
+    } catch (error) {
+      // Missing or malformed multipart Content-Type
+      reject(new MultipartError(`Expected a multipart/form-data body: ${describe(error)}`));
+      return;
+    }
+
+    const body = Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>);
+    const fields: Record<string, string> = {};
+    let settled = false;
+
+    const abort = () => {
+      body.unpipe(busboy);
+      body.destroy();
+      busboy.removeAllListeners();
+      // Keep late parser errors from surfacing as unhandled
+      busboy.on("error", () => {});
+    };
+
+    const settle = (file: MultipartFile | null) => {
+      if (!settled) {
+        settled = true;
+        resolve({ fields, file, abort });
+      }
+    };
+
+    busboy.on("field", (name, value) => {
+      if (!settled) {
+        fields[name] = value;
+      }
+    });
+    busboy.on("file", (name, stream, info) => {
+      if (settled || name !== fileField) {
+        stream.resume();
+        return;
+      }
+      settle({ stream: readFilePart(stream), fileName: info.filename, mimeType: info.mimeType });
+    });
+    busboy.on("close", () => settle(null));
+    busboy.on("error", (error) => {
+      if (settled) {
+        console.error("Multipart body error after the file part:", error);
+        return;
+      }
+      settled = true;
+      abort();
+      reject(new MultipartError(`The form could not be read: ${describe(error)}`));
+    });
+
+    body.pipe(busboy);
+  });
+}
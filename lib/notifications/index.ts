@@ -0,0 +1,59 @@
+import { createSlackChannel } from "./slack";
+import { createTeamsChannel } from "./teams";
+import { createWebhookChannel } from "./webhook";
+import type { ChannelResult, NotificationChannel, SubmissionEvent } from "./types";
+
+export type {
+  ChannelResult,
+  NotificationChannel,
+  NotifiedAudio,
+  SubmissionEvent,
+  SubmissionEventType,
+} from "./types";
+export { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from "./webhook";
+
+const CHANNELS: NotificationChannel[] = [
+  createSlackChannel(),
+  createTeamsChannel(),
+  createWebhookChannel(),
+];
+
+/**
+ * Send an event to every configured channel at once.
+ * Never throws: a missing or failing channel is reported without affecting the others.
+ */
+export async function notify(event: SubmissionEvent): Promise<ChannelResult[]> {
+  const results = await Promise.all(
+    CHANNELS.map(async (channel): Promise<ChannelResult> => {
+      if (!channel.isConfigured(event)) {
+        return { channel: channel.id, status: "skipped" };
+      }
+      try {
+        await channel.send(event);
+        return { channel: channel.id, status: "sent" };
+      } catch (error) {
+        console.error(`Failed to send ${event.type} notification to ${channel.id}:`, error);
+        return {
+          channel: channel.id,
+          status: "failed",
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    })
+  );
+
+  const sent = results.filter((result) => result.status === "sent").map((result) => result.channel);
+  if (sent.length === 0) {
+    console.warn(`No notification channel delivered ${event.type}`);
+  } else {
+    console.log(`${event.type} notification sent to ${sent.join(", ")}`);
+  }
+  return results;
+}
+
+/**
+ * Whether at least one channel delivered the event
+ */
+export function wasDelivered(results: ChannelResult[]): boolean {
+  return results.some((result) => result.status === "sent");
+}
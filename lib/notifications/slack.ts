@@ -0,0 +1,203 @@
+import { IncomingWebhook } from "@slack/webhook";
+import { getCampaignSlackWebhookUrl } from "@/lib/campaigns";
+import { getAdminSubmissionUrl } from "@/lib/public-url";
+import { formatRecordingQuality } from "@/lib/recording-quality";
+import type { NotificationChannel, SubmissionEvent } from "./types";
+
+const SLACK_TIMEOUT_MS = 10_000;
+
+// Review buttons are handled by app/api/slack/interactions/route.ts; each button's value is the submission id
+export const SLACK_REVIEW_BLOCK_ID = "submission_review";
+export const SLACK_REVIEW_ACTIONS = {
+  approve: "approve_send",
+  reject: "reject",
+  reprocess: "reprocess",
+} as const;
+
+/**
+ * Approve & send, Reject and Reprocess buttons for the events an operator can act on
+ */
+function buildReviewActions(event: SubmissionEvent, submissionId: string) {
+  const elements = [
+    ...(event.enhanced ? [{
+      type: "button",
+      action_id: SLACK_REVIEW_ACTIONS.approve,
+      style: "primary",
+      text: { type: "plain_text", text: "✅ Approve & send" },
+      value: submissionId,
+      confirm: {
+        title: { type: "plain_text", text: "Send the AI voice?" },
+        text: { type: "mrkdwn", text: `Email ${event.participant.name} a link to their enhanced audio.` },
+        confirm: { type: "plain_text", text: "Send" },
+        deny: { type: "plain_text", text: "Cancel" },
+      },
+    }] : []),
+    {
+      type: "button",
+      action_id: SLACK_REVIEW_ACTIONS.reject,
+      style: "danger",
+      text: { type: "plain_text", text: "🚫 Reject" },
+      value: submissionId,
+    },
+    ...(event.type !== "upload_received" ? [{
+      type: "button",
+      action_id: SLACK_REVIEW_ACTIONS.reprocess,
+      text: { type: "plain_text", text: "🔁 Reprocess" },
+      value: submissionId,
+    }] : []),
+  ];
+
+  return { type: "actions", block_id: SLACK_REVIEW_BLOCK_ID, elements };
+}
+
+/**
+ * Block Kit message for a submission event
+ */
+function buildSlackMessage(event: SubmissionEvent) {
+  const { raw, enhanced } = event;
+  const hasBothVersions = raw && enhanced;
+
+  const headerText = `${event.type === "preview_promoted" ? "🔁 Enhanced Audio Updated" : "🎤 New Audio Upload"} - ${event.campaign?.label || "Demo"}`;
+  const previewText =
+    enhanced?.preview && enhanced.preview.count > 1
+      ? `Preview ${enhanced.preview.number} of ${enhanced.preview.count}`
+      : undefined;
+
+  const blocks: any[] = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: headerText,
+      },
+    },
+    {
+      type: "section",
+      fields: [
+        {
+          type: "mrkdwn",
+          text: `*👤 Name:*\n${event.participant.name}`,
+        },
+        {
+          type: "mrkdwn",
+          text: `*📅 Uploaded:*\n${event.timestamp}`,
+        },
+        ...(event.participant.email ? [{
+          type: "mrkdwn",
+          text: `*📧 Email:*\n${event.participant.email}`,
+        }] : []),
+        ...(event.campaign ? [{
+          type: "mrkdwn",
+          text: `*🏷️ Campaign:*\n${event.campaign.eventName} (\`${event.campaign.id}\`)`,
+        }] : []),
+        ...(event.script ? [{
+          type: "mrkdwn",
+          text: `*📜 Script:*\n${event.script.title} (\`${event.script.id}\`)`,
+        }] : []),
+        ...(event.preset ? [{
+          type: "mrkdwn",
+          text: `*✨ Preset:*\n${event.preset.label} (\`${event.preset.id}\`)`,
+        }] : []),
+      ],
+    },
+  ];
+
+  // Slack rejects sections with more than 10 fields, so longer details get sections of their own
+  if (event.consent) {
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*✅ Consent:*\nv${event.consent.version} • ${event.consent.acceptedAt}\n${event.consent.ip || "unknown IP"} • ${event.consent.userAgent || "unknown agent"}`,
+      },
+    });
+  }
+
+  if (hasBothVersions) {
+    blocks.push(
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*🎵 Raw Audio:*\n📊 ${raw.fileSize} MB • ⏱️ ${raw.duration.toFixed(1)}s${raw.format ? ` • 🎛️ ${raw.format}` : ""}\n<${raw.url}|Download Raw Audio>`,
+        },
+      },
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*🎨 AI Enhanced Audio:*\n📊 ${enhanced.fileSize} MB • ⏱️ ${enhanced.duration.toFixed(1)}s${previewText ? ` • 🎚️ ${previewText}` : ""}\n<${enhanced.url}|Download Enhanced Audio>`,
+        },
+      }
+    );
+  } else if (raw || enhanced) {
+    const audio = (enhanced || raw)!;
+    const audioTypeText = enhanced ? "🎨 AI Enhanced Audio" : "🎵 Raw Audio";
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*${audioTypeText}:*\n📊 ${audio.fileSize} MB • ⏱️ ${audio.duration.toFixed(1)}s${previewText ? ` • 🎚️ ${previewText}` : ""}${audio.format ? ` • 🎛️ ${audio.format}` : ""}\n<${audio.url}|Click here to download>`,
+      },
+    });
+  }
+
+  if (event.recordingQuality) {
+    const verdictEmoji = { pass: "✅", warn: "⚠️", fail: "❌" }[event.recordingQuality.verdict];
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*🎙️ Recording Quality:*\n${verdictEmoji} ${formatRecordingQuality(event.recordingQuality)}`,
+      },
+    });
+  }
+
+  if (event.error) {
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text:
+          event.type === "enhancement_failed"
+            ? `*🚨 Processing Failed:*\n\`\`\`${event.error}\`\`\``
+            : `*⚠️ AI Enhancement Failed:*\n\`\`\`${event.error}\`\`\`\n_Raw audio was successfully saved and is available above._`,
+      },
+    });
+  }
+
+  if (event.submissionId) {
+    blocks.push(buildReviewActions(event, event.submissionId), {
+      type: "context",
+      elements: [{
+        type: "mrkdwn",
+        text: `<${getAdminSubmissionUrl(event.submissionId)}|Open in admin>`,
+      }],
+    });
+  }
+
+  blocks.push({
+    type: "divider",
+  });
+
+  return {
+    text: headerText,
+    blocks,
+  };
+}
+
+/**
+ * Slack incoming webhook, per campaign with SLACK_WEBHOOK_URL as the fallback
+ */
+export function createSlackChannel(): NotificationChannel {
+  return {
+    id: "slack",
+    isConfigured: (event) => !!getCampaignSlackWebhookUrl(event.campaign),
+    async send(event) {
+      const webhook = new IncomingWebhook(getCampaignSlackWebhookUrl(event.campaign)!, {
+        timeout: SLACK_TIMEOUT_MS,
+      });
+      await webhook.send(buildSlackMessage(event));
+    },
+  };
+}
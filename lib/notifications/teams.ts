@@ -0,0 +1,95 @@
+import { getAdminSubmissionUrl } from "@/lib/public-url";
+import { formatRecordingQuality } from "@/lib/recording-quality";
+import type { NotificationChannel, SubmissionEvent } from "./types";
+
+const TEAMS_TIMEOUT_MS = 10_000;
+
+const TITLES: Record<SubmissionEvent["type"], string> = {
+  upload_received: "New audio upload",
+  enhancement_completed: "New audio upload",
+  enhancement_failed: "Processing failed",
+  preview_promoted: "Enhanced audio updated",
+};
+
+/**
+ * Adaptive Card message, accepted by Teams workflow and connector webhooks
+ */
+function buildTeamsMessage(event: SubmissionEvent) {
+  const { raw, enhanced } = event;
+  const facts = [
+    { title: "Name", value: event.participant.name },
+    { title: "Uploaded", value: event.timestamp },
+    ...(event.participant.email ? [{ title: "Email", value: event.participant.email }] : []),
+    ...(event.campaign ? [{ title: "Campaign", value: event.campaign.eventName }] : []),
+    ...(event.script ? [{ title: "Script", value: event.script.title }] : []),
+    ...(event.preset ? [{ title: "Preset", value: event.preset.label }] : []),
+    ...(raw
+      ? [{ title: "Raw audio", value: `${raw.fileSize} MB, ${raw.duration.toFixed(1)}s${raw.format ? `, ${raw.format}` : ""}` }]
+      : []),
+    ...(event.recordingQuality
+      ? [{ title: "Recording quality", value: formatRecordingQuality(event.recordingQuality) }]
+      : []),
+    ...(enhanced
+      ? [{
+          title: "Enhanced audio",
+          value: `${enhanced.fileSize} MB, ${enhanced.duration.toFixed(1)}s${enhanced.preview && enhanced.preview.count > 1 ? `, preview ${enhanced.preview.number} of ${enhanced.preview.count}` : ""}`,
+        }]
+      : []),
+  ];
+
+  const actions = [
+    ...(raw ? [{ type: "Action.OpenUrl", title: "Download raw audio", url: raw.url }] : []),
+    ...(enhanced ? [{ type: "Action.OpenUrl", title: "Download enhanced audio", url: enhanced.url }] : []),
+    ...(event.submissionId
+      ? [{ type: "Action.OpenUrl", title: "Review & email participant", url: getAdminSubmissionUrl(event.submissionId) }]
+      : []),
+  ];
+
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body: [
+            {
+              type: "TextBlock",
+              size: "Large",
+              weight: "Bolder",
+              text: `${TITLES[event.type]} - ${event.campaign?.label || "Demo"}`,
+            },
+            { type: "FactSet", facts },
+            ...(event.error
+              ? [{ type: "TextBlock", color: "Attention", wrap: true, text: `Error: ${event.error}` }]
+              : []),
+          ],
+          actions,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Microsoft Teams incoming webhook from TEAMS_WEBHOOK_URL
+ */
+export function createTeamsChannel(): NotificationChannel {
+  return {
+    id: "teams",
+    isConfigured: () => !!process.env.TEAMS_WEBHOOK_URL,
+    async send(event) {
+      const response = await fetch(process.env.TEAMS_WEBHOOK_URL!, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(buildTeamsMessage(event)),
+        signal: AbortSignal.timeout(TEAMS_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Teams webhook responded ${response.status}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import type { Campaign } from "@/lib/campaigns";
+import type { ConsentRecord } from "@/lib/consent";
+import type { RecordingQualityReport } from "@/lib/recording-quality";
+
+/**
+ * What happened to a submission
+ */
+export type SubmissionEventType =
+  /** Raw audio stored by /api/upload; no enhancement is attempted */
+  | "upload_received"
+  /** An enhancement run finished; the enhanced audio is missing when enhancement failed */
+  | "enhancement_completed"
+  /** An enhancement run stopped before anything could be delivered */
+  | "enhancement_failed"
+  /** An operator promoted another remix preview after the first notification */
+  | "preview_promoted";
+
+/**
+ * A stored audio file, with a signed download link
+ */
+export interface NotifiedAudio {
+  url: string;
+  /** Megabytes, formatted */
+  fileSize: string;
+  duration: number;
+  /** Measured codec, sample rate and channels, for raw audio */
+  format?: string;
+}
+
+/**
+ * One submission event, fanned out to every configured channel
+ */
+export interface SubmissionEvent {
+  type: SubmissionEventType;
+  /** Links channels back to the submission's admin page */
+  submissionId?: string;
+  /** Picks per-campaign destinations and labels the message */
+  campaign?: Campaign;
+  participant: {
+    name: string;
+    email?: string;
+  };
+  /** When the recording arrived, formatted for people */
+  timestamp: string;
+  script?: { id: string; title: string };
+  /** Enhancement preset the enhanced audio was made with */
+  preset?: { id: string; label: string };
+  /** Terms the participant agreed to before recording was accepted */
+  consent?: ConsentRecord;
+  /** Loudness, clipping, noise and pause measurements of the take, when the page sent them */
+  recordingQuality?: RecordingQualityReport;
+  raw?: NotifiedAudio;
+  enhanced?: NotifiedAudio & {
+    /** Which remix preview this is, when the provider returned several */
+    preview?: { number: number; count: number };
+  };
+  /** Why enhancement was skipped, or why the run stopped */
+  error?: string;
+}
+
+/**
+ * An outbound integration that submission events are sent to
+ */
+export interface NotificationChannel {
+  readonly id: string;
+  /** Whether the channel has somewhere to send this event; unconfigured channels are skipped */
+  isConfigured(event: SubmissionEvent): boolean;
+  /** Throws when the event was not delivered */
+  send(event: SubmissionEvent): Promise<void>;
+}
+
+export interface ChannelResult {
+  channel: string;
+  status: "sent" | "skipped" | "failed";
+  error?: string;
+}
@@ -0,0 +1,63 @@
+import { createHmac, randomUUID } from "crypto";
+import type { NotificationChannel, SubmissionEvent } from "./types";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+/**
+ * Signature over "<timestamp>.<body>", sent as "v1=<hex>".
+ * Receivers recompute it and reject stale timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `v1=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * JSON body for an event; the campaign is reduced to its id and name
+ */
+function buildWebhookPayload(event: SubmissionEvent) {
+  const { type, campaign, ...data } = event;
+  return {
+    id: randomUUID(),
+    type,
+    occurredAt: new Date().toISOString(),
+    data: {
+      ...data,
+      campaign: campaign ? { id: campaign.id, eventName: campaign.eventName } : undefined,
+    },
+  };
+}
+
+/**
+ * Generic JSON webhook at NOTIFY_WEBHOOK_URL, signed with NOTIFY_WEBHOOK_SECRET
+ */
+export function createWebhookChannel(): NotificationChannel {
+  return {
+    id: "webhook",
+    isConfigured: () => !!process.env.NOTIFY_WEBHOOK_URL,
+    async send(event) {
+      const secret = process.env.NOTIFY_WEBHOOK_SECRET;
+      if (!secret) {
+        throw new Error("NOTIFY_WEBHOOK_SECRET is not set; refusing to send an unsigned webhook");
+      }
+
+      const body = JSON.stringify(buildWebhookPayload(event));
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await fetch(process.env.NOTIFY_WEBHOOK_URL!, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Browser capture engines for the recorder: MediaRecorder, or raw PCM from an AudioWorklet encoded as WAV
+ */
+import { encodeWav, resamplePcm } from "@/lib/wav";
+
+export type RecorderEngine = "media-recorder" | "pcm";
+
+export const RECORDER_ENGINES: RecorderEngine[] = ["media-recorder", "pcm"];
+
+/**
+ * How a campaign's page records; PCM gives the same lossless WAV in every browser
+ */
+export interface RecorderSettings {
+  engine: RecorderEngine;
+  /** Sample rate of PCM recordings; the microphone's own rate when unset */
+  sampleRate?: number;
+}
+
+export interface PcmRecording {
+  blob: Blob;
+  /** Seconds of audio captured, excluding pauses */
+  duration: number;
+}
+
+/**
+ * A PCM recording in progress
+ */
+export interface PcmCapture {
+  pause(): void;
+  resume(): void;
+  /** Stop capturing and encode everything recorded as a 16-bit mono WAV */
+  stop(): Promise<PcmRecording>;
+  /** Stop capturing and drop what was recorded */
+  cancel(): void;
+}
+
+// MediaRecorder formats in order of preference; MP4 (M4A) plays best on Mac/iOS
+const MEDIA_RECORDER_TYPES = ["audio/mp4", "audio/webm;codecs=opus", "audio/webm"];
+
+const PROCESSOR_NAME = "pcm-capture";
+
+// Runs on the audio thread. Mixes the input down to mono and posts it in batches,
+// so the main thread gets a message every ~85ms at 48kHz instead of every render quantum.
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.recording = true;
+    this.stopped = false;
+    this.batch = new Float32Array(4096);
+    this.filled = 0;
+    this.port.onmessage = (event) => {
+      if (event.data === "pause") {
+        this.flush();
+        this.recording = false;
+      } else if (event.data === "resume") {
+        this.recording = true;
+      } else if (event.data === "stop") {
+        this.flush();
+        this.recording = false;
+        this.stopped = true;
+        this.port.postMessage("stopped");
+      }
+    };
+  }
+
+  flush() {
+    if (this.filled > 0) {
+      this.port.postMessage(this.batch.slice(0, this.filled));
+      this.filled = 0;
+    }
+  }
+
+  process(inputs) {
+    if (this.stopped) {
+      return false;
+    }
+    const input = inputs[0];
+    if (this.recording && input && input.length > 0) {
+      for (let i = 0; i < input[0].length; i++) {
+        let sum = 0;
+        for (let channel = 0; channel < input.length; channel++) {
+          sum += input[channel][i];
+        }
+        this.batch[this.filled++] = sum / input.length;
+        if (this.filled === this.batch.length) {
+          this.flush();
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor("${PROCESSOR_NAME}", PcmCaptureProcessor);
+`;
+
+/**
+ * The best MediaRecorder format this browser supports, or null when MediaRecorder cannot record audio
+ */
+export function pickMediaRecorderType(): string | null {
+  if (typeof MediaRecorder === "undefined" || typeof MediaRecorder.isTypeSupported !== "function") {
+    return null;
+  }
+  return MEDIA_RECORDER_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) || null;
+}
+
+export function isPcmCaptureSupported(): boolean {
+  return typeof AudioContext !== "undefined" && typeof AudioWorkletNode !== "undefined";
+}
+
+/**
+ * The engine to record with: the requested one, or the other when this browser lacks it.
+ * Null when neither works.
+ */
+export function resolveRecorderEngine(requested: RecorderEngine): RecorderEngine | null {
+  const usable = {
+    "media-recorder": pickMediaRecorderType() !== null,
+    pcm: isPcmCaptureSupported(),
+  };
+  if (usable[requested]) {
+    return requested;
+  }
+  return RECORDER_ENGINES.find((engine) => usable[engine]) || null;
+}
+
+function joinChunks(chunks: Float32Array[]): Float32Array {
+  const samples = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return samples;
+}
+
+/**
+ * Start recording a microphone stream as PCM. The stream's tracks are left for the caller to stop.
+ */
+export async function startPcmCapture(
+  stream: MediaStream,
+  sampleRate?: number
+): Promise<PcmCapture> {
+  const context = new AudioContext();
+  const moduleUrl = URL.createObjectURL(
+    new Blob([PROCESSOR_SOURCE], { type: "application/javascript" })
+  );
+
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } catch (error) {
+    await context.close();
+    throw error;
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  // The context may start suspended once the click that started recording is a few awaits back
+  await context.resume();
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME);
+  const chunks: Float32Array[] = [];
+  let onStopped: (() => void) | null = null;
+
+  node.port.onmessage = (event: MessageEvent<Float32Array | "stopped">) => {
+    if (event.data === "stopped") {
+      onStopped?.();
+    } else {
+      chunks.push(event.data);
+    }
+  };
+
+  // The node writes silence; connecting it keeps the graph pulling audio through it
+  source.connect(node);
+  node.connect(context.destination);
+
+  const release = () => {
+    source.disconnect();
+    node.disconnect();
+    node.port.onmessage = null;
+    void context.close();
+  };
+
+  return {
+    pause: () => node.port.postMessage("pause"),
+    resume: () => node.port.postMessage("resume"),
+    stop: async () => {
+      // The processor flushes its last batch before confirming, and port messages arrive in order
+      await new Promise<void>((resolve) => {
+        onStopped = resolve;
+        node.port.postMessage("stop");
+      });
+      release();
+
+      const captured = joinChunks(chunks);
+      const rate = sampleRate || context.sampleRate;
+      const samples = resamplePcm(captured, context.sampleRate, rate);
+      return {
+        blob: new Blob([encodeWav(samples, rate)], { type: "audio/wav" }),
+        duration: captured.length / context.sampleRate,
+      };
+    },
+    cancel: release,
+  };
+}
@@ -0,0 +1,55 @@
+import { EventEmitter } from "events";
+
+/**
+ * Events emitted by the enhancement pipeline, in the order they normally occur.
+ * Anyone with the job id can read them, so they carry no download links or provider ids.
+ */
+export type PipelineEventPayload =
+  | { type: "raw_uploaded"; fileName: string; fileSize: string }
+  | { type: "cloning"; provider: string }
+  | { type: "remixing" }
+  | { type: "enhanced_uploaded"; fileName: string; fileSize: string; duration: number }
+  | { type: "enhancement_failed"; error: string }
+  | { type: "notified" }
+  | { type: "cleaned_up" }
+  | { type: "completed" }
+  | { type: "failed"; error: string };
+
+export type PipelineEventType = PipelineEventPayload["type"];
+
+export type PipelineEvent = PipelineEventPayload & {
+  /** Position of the event within its job, starting at 1 */
+  seq: number;
+  /** Overall job progress (0-100) once this event happened */
+  progress: number;
+  at: string;
+};
+
+/**
+ * Events after which no further events are emitted for a job
+ */
+export const TERMINAL_EVENT_TYPES: PipelineEventType[] = ["completed", "failed"];
+
+// In-process fan-out so open SSE streams hear about events without re-reading the job
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+/**
+ * Publish an already-persisted event to listeners in this process
+ */
+export function publishPipelineEvent(jobId: string, event: PipelineEvent): void {
+  emitter.emit(jobId, event);
+}
+
+/**
+ * Listen for events on a job; returns an unsubscribe function
+ */
+export function subscribeToPipelineEvents(
+  jobId: string,
+  listener: (event: PipelineEvent) => void
+): () => void {
+  emitter.on(jobId, listener);
+  return () => {
+    emitter.off(jobId, listener);
+  };
+}
@@ -0,0 +1,77 @@
+import { getAudioStore, getFileSizeInMB } from "@/lib/storage";
+import { getSubmissionRepository, type Submission } from "@/lib/submissions";
+import { getJob, updateJob } from "@/lib/jobs";
+import { getCampaign } from "@/lib/campaigns";
+import { getScript } from "@/lib/scripts";
+import { getEnhancementPreset } from "@/lib/enhancement-presets";
+import { notify, wasDelivered } from "@/lib/notifications";
+
+export interface PromotionResult {
+  submission: Submission;
+  /** False when no channel took the update; the promotion itself still stands */
+  notified: boolean;
+}
+
+/**
+ * Make one of a submission's stored previews its canonical enhanced file.
+ * The job result handed to the participant is pointed at it and the team is sent the new file.
+ */
+export async function promotePreview(
+  submission: Submission,
+  index: number
+): Promise<PromotionResult> {
+  const previews = submission.previews || [];
+  const preview = previews[index];
+  if (!preview) {
+    throw new Error(`Submission ${submission.id} has no preview ${index}`);
+  }
+
+  const updated = await getSubmissionRepository().update(submission.id, {
+    enhancedKey: preview.key,
+    enhancedFileName: preview.fileName,
+    enhancedDuration: preview.duration,
+    promotedPreview: index,
+  });
+  console.log(`Promoted preview ${index + 1} of ${previews.length} for submission ${submission.id}`);
+
+  const enhancedDownloadUrl = await getAudioStore().getSignedUrl(preview.key, preview.fileName);
+  const enhancedFileSize = getFileSizeInMB(preview.size);
+
+  const job = submission.jobId ? await getJob(submission.jobId) : null;
+  if (job?.result) {
+    await updateJob(job.id, {
+      result: {
+        ...job.result,
+        enhancedDownloadUrl,
+        enhancedFileName: preview.fileName,
+        enhancedFileSize,
+        duration: preview.duration,
+      },
+    });
+  }
+
+  const script = getScript(submission.scriptId);
+  const preset = getEnhancementPreset(submission.presetId);
+  const notified = await notify({
+    type: "preview_promoted",
+    submissionId: submission.id,
+    campaign: getCampaign(submission.campaignId) || undefined,
+    participant: submission.participant,
+    timestamp: new Date(submission.createdAt).toLocaleString("en-US", {
+      dateStyle: "medium",
+      timeStyle: "short",
+    }),
+    script: script ? { id: script.id, title: script.title } : undefined,
+    preset: preset ? { id: preset.id, label: preset.label } : undefined,
+    consent: submission.consent,
+    recordingQuality: submission.recordingQuality,
+    enhanced: {
+      url: enhancedDownloadUrl,
+      fileSize: enhancedFileSize,
+      duration: preview.duration,
+      preview: { number: index + 1, count: previews.length },
+    },
+  });
+
+  return { submission: updated, notified: wasDelivered(notified) };
+}
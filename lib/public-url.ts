@@ -0,0 +1,13 @@
+/**
+ * Origin the app is served from, for absolute links in notifications and emails
+ */
+export function getPublicBaseUrl(): string {
+  return (process.env.PUBLIC_BASE_URL || "http://localhost:3000").replace(/\/+$/, "");
+}
+
+/**
+ * Admin page for a submission, behind the admin credentials
+ */
+export function getAdminSubmissionUrl(submissionId: string): string {
+  return `${getPublicBaseUrl()}/admin/submissions/${submissionId}`;
+}
@@ -0,0 +1,99 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { acquireSlot, hitKey, pruneWindows } from "./memory";
+import type { RateLimitStore } from "./types";
+
+interface RateLimitState {
+  windows: Record<string, number[]>;
+  /** When each window closes after its latest request; missing from files written before it was tracked */
+  expiries?: Record<string, number>;
+  slots: Record<string, Record<string, number>>;
+}
+
+// A lock older than this belongs to a crashed process
+const STALE_LOCK_MS = 5000;
+const LOCK_RETRY_MS = 20;
+
+/**
+ * Create a rate limit store kept in one JSON file, shared by every process on the host.
+ * Updates are serialised with an exclusive lock file.
+ */
+export function createFileRateLimitStore(filePath: string): RateLimitStore {
+  const lockPath = `${filePath}.lock`;
+
+  async function acquireLock(): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    for (;;) {
+      try {
+        const handle = await fs.open(lockPath, "wx");
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+
+      try {
+        const { mtimeMs } = await fs.stat(lockPath);
+        if (Date.now() - mtimeMs > STALE_LOCK_MS) {
+          await fs.rm(lockPath, { force: true });
+          continue;
+        }
+      } catch {
+        // Lock was released between open and stat; try again straight away
+        continue;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  async function update<T>(apply: (state: RateLimitState, now: number) => T): Promise<T> {
+    await acquireLock();
+    try {
+      let state: RateLimitState = { windows: {}, slots: {} };
+      try {
+        state = JSON.parse(await fs.readFile(filePath, "utf8")) as RateLimitState;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+      }
+
+      const result = apply(state, Date.now());
+
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(state));
+      await fs.rename(tempPath, filePath);
+      return result;
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  return {
+    id: "file",
+
+    hit: (key, limit, windowMs) =>
+      update((state, now) => {
+        // The whole file is rewritten anyway, so sweep abandoned windows every time
+        const expiries = (state.expiries ??= {});
+        pruneWindows(state.windows, expiries, now);
+        return hitKey(state.windows, expiries, key, limit, windowMs, now);
+      }),
+
+    acquire: (key, limit, ttlMs) =>
+      update((state, now) => {
+        const leases = state.slots[key] || {};
+        state.slots[key] = leases;
+        return acquireSlot(leases, limit, ttlMs, now);
+      }),
+
+    release: (key, leaseId) =>
+      update((state) => {
+        delete state.slots[key]?.[leaseId];
+      }),
+  };
+}
@@ -0,0 +1,158 @@
+import path from "path";
+import { NextResponse } from "next/server";
+import { getDataDir } from "@/lib/data-dir";
+import { createMemoryRateLimitStore } from "./memory";
+import { createFileRateLimitStore } from "./file";
+import type { RateLimitStore } from "./types";
+
+export type { RateLimitStore, WindowHit } from "./types";
+
+interface WindowRule {
+  limit: number;
+  windowMs: number;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Enhancement runs are capped at 300s; a lease outliving that belongs to a killed run
+const ENHANCEMENT_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * A request turned away by a limit; routes answer it with 429 and Retry-After
+ */
+export class RateLimitExceededError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterSeconds: number
+  ) {
+    super(message);
+    this.name = "RateLimitExceededError";
+  }
+}
+
+let cachedStore: RateLimitStore | undefined;
+
+/**
+ * Resolve the store from RATE_LIMIT_STORE: "memory" (default, per process) or "file" (shared by processes on this host)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (cachedStore) {
+    return cachedStore;
+  }
+
+  const storeId = process.env.RATE_LIMIT_STORE || "memory";
+  switch (storeId) {
+    case "memory":
+      cachedStore = createMemoryRateLimitStore();
+      break;
+    case "file":
+      cachedStore = createFileRateLimitStore(path.join(getDataDir(), "rate-limits.json"));
+      break;
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${storeId}"`);
+  }
+
+  return cachedStore;
+}
+
+/**
+ * Plug in a shared store (for example one backed by Redis) in place of the configured one
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  cachedStore = store;
+}
+
+/**
+ * Parse a rule like "5/10m" from an env var; "off" disables it
+ */
+function getWindowRule(name: string, fallback: string): WindowRule | null {
+  const value = process.env[name] || fallback;
+  if (value === "off") {
+    return null;
+  }
+
+  const match = /^(\d+)\/(\d+)([smhd])$/.exec(value);
+  if (!match) {
+    throw new Error(`${name} must look like "5/10m" or "off", got "${value}"`);
+  }
+  return {
+    limit: parseInt(match[1], 10),
+    windowMs: parseInt(match[2], 10) * DURATION_UNITS[match[3]],
+  };
+}
+
+async function enforceWindow(key: string, rule: WindowRule | null, message: string): Promise<void> {
+  if (!rule) {
+    return;
+  }
+
+  const result = await getRateLimitStore().hit(key, rule.limit, rule.windowMs);
+  if (!result.allowed) {
+    console.warn(`Rate limit hit for ${key} (${result.count}/${rule.limit})`);
+    throw new RateLimitExceededError(message, Math.ceil(result.retryAfterMs / 1000));
+  }
+}
+
+/**
+ * Count a request from an IP against RATE_LIMIT_PER_IP; requests without a known IP share one window
+ */
+export async function checkIpRateLimit(ip: string | null, route: string): Promise<void> {
+  await enforceWindow(
+    `ip:${route}:${ip || "unknown"}`,
+    getWindowRule("RATE_LIMIT_PER_IP", "30/10m"),
+    "Too many recordings have been sent from this device. Please wait a moment and try again."
+  );
+}
+
+/**
+ * Count an enhancement for an email against RATE_LIMIT_PER_EMAIL and RATE_LIMIT_EMAIL_DAILY
+ */
+export async function checkEmailRateLimits(email: string): Promise<void> {
+  const key = email.trim().toLowerCase();
+  await enforceWindow(
+    `email:${key}`,
+    getWindowRule("RATE_LIMIT_PER_EMAIL", "3/10m"),
+    "You've sent several recordings in a short time. Please wait a few minutes before trying again."
+  );
+  await enforceWindow(
+    `email-daily:${key}`,
+    getWindowRule("RATE_LIMIT_EMAIL_DAILY", "5/1d"),
+    "You've reached today's limit of recordings for this email address."
+  );
+}
+
+/**
+ * Take one of MAX_CONCURRENT_ENHANCEMENTS slots for an enhancement run; returns a lease to release when it ends
+ */
+export async function acquireEnhancementSlot(): Promise<string> {
+  const limit = parseInt(process.env.MAX_CONCURRENT_ENHANCEMENTS || "", 10) || 4;
+  const leaseId = await getRateLimitStore().acquire("enhancements", limit, ENHANCEMENT_LEASE_MS);
+  if (!leaseId) {
+    console.warn(`All ${limit} enhancement slots are busy`);
+    throw new RateLimitExceededError(
+      "We're processing a lot of voices right now. Please try again in a minute.",
+      60
+    );
+  }
+  return leaseId;
+}
+
+export async function releaseEnhancementSlot(leaseId: string): Promise<void> {
+  await getRateLimitStore().release("enhancements", leaseId);
+}
+
+/**
+ * 429 response for a rejected request, with Retry-After in seconds
+ */
+export function rateLimitResponse(error: RateLimitExceededError): NextResponse {
+  const retryAfter = Math.max(1, error.retryAfterSeconds);
+  return NextResponse.json(
+    { error: error.message, retryAfter },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+}
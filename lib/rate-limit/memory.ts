@@ -0,0 +1,127 @@
+import { randomUUID } from "crypto";
+import type { RateLimitStore, WindowHit } from "./types";
+
+// Abandoned windows are swept at most this often
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Sliding-window hit against a list of request timestamps, pruning expired ones in place
+ */
+export function hitWindow(timestamps: number[], limit: number, windowMs: number, now: number): WindowHit {
+  const windowStart = now - windowMs;
+  while (timestamps.length > 0 && timestamps[0] <= windowStart) {
+    timestamps.shift();
+  }
+
+  if (timestamps.length >= limit) {
+    return {
+      allowed: false,
+      count: timestamps.length,
+      retryAfterMs: timestamps[timestamps.length - limit] + windowMs - now,
+    };
+  }
+
+  timestamps.push(now);
+  return { allowed: true, count: timestamps.length, retryAfterMs: 0 };
+}
+
+/**
+ * Count a request against key's window in windows, noting in expiries when that window closes
+ */
+export function hitKey(
+  windows: Record<string, number[]>,
+  expiries: Record<string, number>,
+  key: string,
+  limit: number,
+  windowMs: number,
+  now: number
+): WindowHit {
+  const timestamps = windows[key] || [];
+  const result = hitWindow(timestamps, limit, windowMs, now);
+  if (timestamps.length === 0) {
+    delete windows[key];
+    delete expiries[key];
+  } else {
+    windows[key] = timestamps;
+    expiries[key] = timestamps[timestamps.length - 1] + windowMs;
+  }
+  return result;
+}
+
+/**
+ * Drop windows whose latest request has aged out, so keys that are never seen again don't pile up.
+ * Windows without an expiry predate it being tracked and are dropped too.
+ */
+export function pruneWindows(
+  windows: Record<string, number[]>,
+  expiries: Record<string, number>,
+  now: number
+): void {
+  for (const key of Object.keys(windows)) {
+    if (!(expiries[key] > now)) {
+      delete windows[key];
+    }
+  }
+  for (const key of Object.keys(expiries)) {
+    if (!windows[key]) {
+      delete expiries[key];
+    }
+  }
+}
+
+/**
+ * Lease id for a free slot, dropping leases that were never released before their expiry
+ */
+export function acquireSlot(
+  leases: Record<string, number>,
+  limit: number,
+  ttlMs: number,
+  now: number
+): string | null {
+  for (const [leaseId, expiresAt] of Object.entries(leases)) {
+    if (expiresAt <= now) {
+      delete leases[leaseId];
+    }
+  }
+
+  if (Object.keys(leases).length >= limit) {
+    return null;
+  }
+
+  const leaseId = randomUUID();
+  leases[leaseId] = now + ttlMs;
+  return leaseId;
+}
+
+/**
+ * Create a rate limit store that only counts requests seen by this process
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows: Record<string, number[]> = {};
+  const expiries: Record<string, number> = {};
+  const slots = new Map<string, Record<string, number>>();
+  let lastPrunedAt = 0;
+
+  return {
+    id: "memory",
+
+    async hit(key, limit, windowMs) {
+      const now = Date.now();
+      if (now - lastPrunedAt >= PRUNE_INTERVAL_MS) {
+        pruneWindows(windows, expiries, now);
+        lastPrunedAt = now;
+      }
+      return hitKey(windows, expiries, key, limit, windowMs, now);
+    },
+
+    async acquire(key, limit, ttlMs) {
+      const leases = slots.get(key) || {};
+      slots.set(key, leases);
+      return acquireSlot(leases, limit, ttlMs, Date.now());
+    },
+
+    async release(key, leaseId) {
+      delete slots.get(key)?.[leaseId];
+    },
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * Outcome of counting one request against a sliding window
+ */
+export interface WindowHit {
+  allowed: boolean;
+  /** Requests counted in the window, including this one when allowed */
+  count: number;
+  /** How long until the oldest counted request leaves the window; 0 when allowed */
+  retryAfterMs: number;
+}
+
+/**
+ * Backing store for rate limits; shared stores let several server processes enforce one limit
+ */
+export interface RateLimitStore {
+  readonly id: string;
+  /** Atomically count a request against key unless limit requests already fall inside the window */
+  hit(key: string, limit: number, windowMs: number): Promise<WindowHit>;
+  /** Take one of limit slots for ttlMs; returns a lease id, or null when all slots are taken */
+  acquire(key: string, limit: number, ttlMs: number): Promise<string | null>;
+  release(key: string, leaseId: string): Promise<void>;
+}
@@ -0,0 +1,214 @@
+import { getAudioStore, generateStorageKey } from "@/lib/storage";
+import { detectAudioType, type DetectedAudioType } from "@/lib/file-type";
+import { createAudioProbeWindow, getAudioProbeError, type AudioProbe } from "@/lib/audio-probe";
+import { createContentHash } from "@/lib/idempotency";
+import { getConsentKey, type ConsentRecord } from "@/lib/consent";
+import type { Campaign } from "@/lib/campaigns";
+
+// Enough of the start of a file for detectAudioType
+const SNIFF_BYTES = 64;
+
+/**
+ * A participant's recording, stored under its campaign's prefix and measured on the way in
+ */
+export interface StoredRawAudio {
+  key: string;
+  fileName: string;
+  size: number;
+  /** SHA-256 of the bytes, for spotting duplicate submissions */
+  contentHash: string;
+  audioType: DetectedAudioType;
+  probe: AudioProbe;
+}
+
+export interface StoreRawAudioOptions {
+  campaign: Campaign;
+  /** Participant name, used in the storage key */
+  name: string;
+  /** Download filename without its extension, which comes from the detected type */
+  fileBaseName: string;
+  /** Larger recordings are rejected and nothing is kept */
+  maxSize: number;
+  /** Stored beside the audio once it has passed validation */
+  consent: ConsentRecord;
+  tags?: Record<string, string>;
+}
+
+/**
+ * A recording arriving in a request body, or one already in storage, such as a finalized direct upload
+ */
+export type RawAudioSource = AsyncIterable<Uint8Array> | { stagedKey: string };
+
+/**
+ * The recording was refused; the message is safe to show to participants
+ */
+export class RawAudioError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "RawAudioError";
+  }
+}
+
+/**
+ * Stream a recording into storage while hashing and probing it, so no request holds the whole file.
+ * A staged recording is read once to measure it and then copied into place within storage.
+ * Invalid or oversized audio throws a RawAudioError and leaves nothing in storage.
+ */
+export async function storeRawAudio(
+  source: RawAudioSource,
+  { campaign, name, fileBaseName, maxSize, consent, tags }: StoreRawAudioOptions
+): Promise<StoredRawAudio> {
+  const store = getAudioStore();
+  const stagedKey = "stagedKey" in source ? source.stagedKey : null;
+  const stream = "stagedKey" in source ? await store.getStream(source.stagedKey) : source;
+  if (!stream) {
+    throw new RawAudioError("Upload not found", 404);
+  }
+  const iterator = stream[Symbol.asyncIterator]();
+  const hash = createContentHash();
+  const window = createAudioProbeWindow();
+
+  // Read just enough to tell the format, which decides the key and content type
+  const sniffed: Uint8Array[] = [];
+  let sniffedSize = 0;
+  let ended = false;
+  while (sniffedSize < SNIFF_BYTES) {
+    const next = await iterator.next();
+    if (next.done) {
+      ended = true;
+      break;
+    }
+    sniffed.push(next.value);
+    sniffedSize += next.value.length;
+  }
+
+  // Validate file type from its content, not the browser-reported MIME type
+  const audioType = detectAudioType(Buffer.concat(sniffed));
+  if (!audioType) {
+    throw new RawAudioError(
+      "Invalid file type. Please upload .mp3, .wav, .mp4, .m4a, .ogg, or .webm files"
+    );
+  }
+
+  const key = generateStorageKey(campaign.storagePrefix, name, audioType.extension);
+  const fileName = `${fileBaseName}.${audioType.extension}`;
+  const objectTags = { campaign: campaign.id, ...tags };
+
+  async function* measured(): AsyncGenerator<Uint8Array> {
+    const take = (chunk: Uint8Array) => {
+      if (window.size + chunk.length > maxSize) {
+        throw new RawAudioError(
+          `File size exceeds ${Math.round(maxSize / (1024 * 1024))}MB limit`,
+          413
+        );
+      }
+      hash.update(chunk);
+      window.write(chunk);
+      return chunk;
+    };
+
+    for (const chunk of sniffed) {
+      yield take(chunk);
+    }
+    while (!ended) {
+      const next = await iterator.next();
+      if (next.done) {
+        break;
+      }
+      yield take(next.value);
+    }
+  }
+
+  const objectOptions = { contentType: audioType.mimeType, fileName, tags: objectTags };
+  if (stagedKey) {
+    const body = measured();
+    for (let next = await body.next(); !next.done; next = await body.next()) {
+      // take() has hashed and probed the chunk; the bytes are copied within storage below
+    }
+    await store.copy(stagedKey, key, objectOptions);
+  } else {
+    await store.putStream(key, measured(), objectOptions);
+  }
+
+  // Measure the audio itself; client-reported durations are only logged for comparison
+  const probe = window.probe();
+  const probeError = getAudioProbeError(probe);
+  if (!probe || probeError) {
+    await store.delete(key);
+    throw new RawAudioError(probeError || "Could not read audio file");
+  }
+
+  await store.put(getConsentKey(key), Buffer.from(JSON.stringify(consent, null, 2)), {
+    contentType: "application/json",
+    fileName: `consent-${fileBaseName}.json`,
+    tags: objectTags,
+  });
+  console.log(
+    `Raw audio (${window.size} bytes) and consent record ${stagedKey ? "copied" : "streamed"} to ${store.id} storage`
+  );
+
+  return {
+    key,
+    fileName,
+    size: window.size,
+    contentHash: hash.digest("hex"),
+    audioType,
+    probe,
+  };
+}
+
+/**
+ * Remove a stored recording and its consent record, e.g. when it duplicates an earlier take
+ */
+export async function discardRawAudio(key: string): Promise<void> {
+  const store = getAudioStore();
+  await store.delete(key);
+  await store.delete(getConsentKey(key));
+}
+
+/**
+ * Read a stored recording into memory, refusing one larger than maxSize; null when it is missing
+ */
+export async function readStoredAudio(key: string, maxSize: number): Promise<Buffer | null> {
+  const stream = await getAudioStore().getStream(key);
+  if (!stream) {
+    return null;
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > maxSize) {
+      throw new Error(
+        `Recording is larger than the ${Math.round(maxSize / (1024 * 1024))}MB that can be cloned`
+      );
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Detect and probe a recording already in storage by streaming it; null when it is missing or unreadable
+ */
+export async function measureStoredAudio(
+  key: string
+): Promise<{ audioType: DetectedAudioType; probe: AudioProbe; size: number } | null> {
+  const stream = await getAudioStore().getStream(key);
+  if (!stream) {
+    return null;
+  }
+
+  const window = createAudioProbeWindow();
+  for await (const chunk of stream) {
+    window.write(chunk);
+  }
+
+  const audioType = detectAudioType(window.head());
+  const probe = window.probe();
+  return audioType && probe ? { audioType, probe, size: window.size } : null;
+}
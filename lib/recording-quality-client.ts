@@ -0,0 +1,34 @@
+/**
+ * Browser side of the recording quality check: decode a finished take and measure it
+ */
+import {
+  analyzeRecordingSamples,
+  gradeRecordingQuality,
+  type RecordingQualityReport,
+} from "@/lib/recording-quality";
+
+/**
+ * Decode a recording with Web Audio, mix it down to mono and grade it
+ */
+export async function checkRecordingQuality(blob: Blob): Promise<RecordingQualityReport> {
+  const context = new AudioContext();
+  try {
+    const audio = await context.decodeAudioData(await blob.arrayBuffer());
+
+    let samples = audio.getChannelData(0);
+    if (audio.numberOfChannels > 1) {
+      const mixed = new Float32Array(audio.length);
+      for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+        const data = audio.getChannelData(channel);
+        for (let i = 0; i < audio.length; i++) {
+          mixed[i] += data[i] / audio.numberOfChannels;
+        }
+      }
+      samples = mixed;
+    }
+
+    return gradeRecordingQuality(analyzeRecordingSamples(samples, audio.sampleRate));
+  } finally {
+    void context.close();
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Quality checks for a finished take, measured in the browser and re-graded by the server
+ */
+
+export type QualityVerdict = "pass" | "warn" | "fail";
+
+export interface RecordingQualityMetrics {
+  /** Loudness of the whole take in dBFS */
+  rmsDb: number;
+  /** Loudest sample in dBFS */
+  peakDb: number;
+  /** Fraction of samples at or near full scale */
+  clippingRatio: number;
+  /** Speech level over background level, in dB */
+  snrDb: number;
+  /** Fraction of the take that is speech */
+  speechRatio: number;
+  longestSilenceSeconds: number;
+}
+
+export interface QualityIssue {
+  metric: keyof RecordingQualityMetrics;
+  verdict: Exclude<QualityVerdict, "pass">;
+  /** Advice for the participant */
+  message: string;
+}
+
+export interface RecordingQualityReport {
+  /** The worst verdict of any metric; failing takes cannot be submitted */
+  verdict: QualityVerdict;
+  metrics: RecordingQualityMetrics;
+  issues: QualityIssue[];
+}
+
+const METRICS: (keyof RecordingQualityMetrics)[] = [
+  "rmsDb",
+  "peakDb",
+  "clippingRatio",
+  "snrDb",
+  "speechRatio",
+  "longestSilenceSeconds",
+];
+
+// Loudness is measured over 20ms frames, short enough to find the gaps between words
+const FRAME_SECONDS = 0.02;
+const CLIP_LEVEL = 0.99;
+// Digital silence reads as this instead of -Infinity, which JSON cannot carry
+const MIN_DB = -100;
+// Background is the quietest tenth of frames, speech the loudest twentieth
+const NOISE_PERCENTILE = 0.1;
+const SPEECH_PERCENTILE = 0.95;
+// A frame is speech when it is this far above the background, and not near-silent in absolute terms
+const SPEECH_ABOVE_NOISE_DB = 10;
+const SPEECH_MIN_DB = -55;
+
+/**
+ * Where each metric turns into a warning or a failure
+ */
+const THRESHOLDS = {
+  rmsDb: { warn: -35, fail: -45 },
+  clippingRatio: { warn: 0.001, fail: 0.01 },
+  snrDb: { warn: 20, fail: 10 },
+  speechRatio: { warn: 0.5, fail: 0.25 },
+  longestSilenceSeconds: { warn: 6, fail: 20 },
+};
+
+function toDb(value: number): number {
+  return value > 0 ? Math.max(MIN_DB, 20 * Math.log10(value)) : MIN_DB;
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Measure mono samples (-1..1) of a finished take
+ */
+export function analyzeRecordingSamples(
+  samples: Float32Array,
+  sampleRate: number
+): RecordingQualityMetrics {
+  const frameLength = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const frameDbs: number[] = [];
+  let sumOfSquares = 0;
+  let peak = 0;
+  let clipped = 0;
+
+  for (let start = 0; start < samples.length; start += frameLength) {
+    const end = Math.min(samples.length, start + frameLength);
+    let frameSum = 0;
+    for (let i = start; i < end; i++) {
+      const sample = samples[i];
+      const magnitude = Math.abs(sample);
+      frameSum += sample * sample;
+      peak = Math.max(peak, magnitude);
+      if (magnitude >= CLIP_LEVEL) {
+        clipped++;
+      }
+    }
+    sumOfSquares += frameSum;
+    frameDbs.push(toDb(Math.sqrt(frameSum / (end - start))));
+  }
+
+  if (frameDbs.length === 0) {
+    return {
+      rmsDb: MIN_DB,
+      peakDb: MIN_DB,
+      clippingRatio: 0,
+      snrDb: 0,
+      speechRatio: 0,
+      longestSilenceSeconds: 0,
+    };
+  }
+
+  const sorted = [...frameDbs].sort((a, b) => a - b);
+  const noiseDb = sorted[Math.floor((sorted.length - 1) * NOISE_PERCENTILE)];
+  const speechDb = sorted[Math.floor((sorted.length - 1) * SPEECH_PERCENTILE)];
+  const speechThreshold = Math.max(noiseDb + SPEECH_ABOVE_NOISE_DB, SPEECH_MIN_DB);
+
+  let speechFrames = 0;
+  let silentRun = 0;
+  let longestSilentRun = 0;
+  for (const frameDb of frameDbs) {
+    if (frameDb >= speechThreshold) {
+      speechFrames++;
+      silentRun = 0;
+    } else {
+      silentRun++;
+      longestSilentRun = Math.max(longestSilentRun, silentRun);
+    }
+  }
+
+  return {
+    rmsDb: round(toDb(Math.sqrt(sumOfSquares / samples.length)), 1),
+    peakDb: round(toDb(peak), 1),
+    clippingRatio: round(clipped / samples.length, 5),
+    snrDb: round(speechDb - noiseDb, 1),
+    speechRatio: round(speechFrames / frameDbs.length, 3),
+    longestSilenceSeconds: round((longestSilentRun * frameLength) / sampleRate, 1),
+  };
+}
+
+function gradeMetric(
+  metric: keyof typeof THRESHOLDS,
+  value: number
+): Exclude<QualityVerdict, "pass"> | null {
+  const { warn, fail } = THRESHOLDS[metric];
+  // Thresholds below their warning level are minimums; the rest are maximums
+  const isMinimum = fail < warn;
+  if (isMinimum ? value < fail : value > fail) {
+    return "fail";
+  }
+  if (isMinimum ? value < warn : value > warn) {
+    return "warn";
+  }
+  return null;
+}
+
+const ISSUE_MESSAGES: Record<keyof typeof THRESHOLDS, Record<"warn" | "fail", string>> = {
+  rmsDb: {
+    warn: "Your recording is quiet. Moving a little closer to the microphone will help.",
+    fail: "Your recording is too quiet to use. Move closer to the microphone and record again.",
+  },
+  clippingRatio: {
+    warn: "Parts of your recording are slightly distorted. Move back from the microphone or speak more softly.",
+    fail: "Your recording is distorted. Move back from the microphone or speak more softly, then record again.",
+  },
+  snrDb: {
+    warn: "There is noticeable background noise. A quieter spot will give a better result.",
+    fail: "There is too much background noise. Move somewhere quieter and record again.",
+  },
+  speechRatio: {
+    warn: "Much of your recording is silence. Keep reading steadily through the script.",
+    fail: "We could barely hear any speech. Check your microphone and read the script aloud.",
+  },
+  longestSilenceSeconds: {
+    warn: "Your recording has a long pause. Try to keep reading without stopping.",
+    fail: "Your recording has a very long silent gap. Please record again without stopping.",
+  },
+};
+
+/**
+ * Grade metrics against the thresholds; the verdict is the worst of any metric
+ */
+export function gradeRecordingQuality(metrics: RecordingQualityMetrics): RecordingQualityReport {
+  const issues: QualityIssue[] = [];
+  for (const metric of Object.keys(THRESHOLDS) as (keyof typeof THRESHOLDS)[]) {
+    const verdict = gradeMetric(metric, metrics[metric]);
+    if (verdict) {
+      issues.push({ metric, verdict, message: ISSUE_MESSAGES[metric][verdict] });
+    }
+  }
+
+  const verdict = issues.some((issue) => issue.verdict === "fail")
+    ? "fail"
+    : issues.length > 0
+      ? "warn"
+      : "pass";
+  return { verdict, metrics, issues };
+}
+
+/**
+ * Read metrics submitted with a form and grade them here, so the client's own verdict is never trusted.
+ * Null when the field is missing or malformed.
+ */
+export function parseRecordingQuality(value: string | null | undefined): RecordingQualityReport | null {
+  if (!value) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== "object") {
+    return null;
+  }
+
+  const source = parsed as Record<string, unknown>;
+  const metrics = {} as RecordingQualityMetrics;
+  for (const metric of METRICS) {
+    const metricValue = source[metric];
+    if (typeof metricValue !== "number" || !Number.isFinite(metricValue)) {
+      return null;
+    }
+    metrics[metric] = metricValue;
+  }
+  return gradeRecordingQuality(metrics);
+}
+
+/**
+ * One line for logs and notifications, e.g. "warn: -31.2 dBFS, peak -0.4 dBFS, 0.02% clipped, ..."
+ */
+export function formatRecordingQuality({ verdict, metrics }: RecordingQualityReport): string {
+  return [
+    `${verdict}: ${metrics.rmsDb} dBFS`,
+    `peak ${metrics.peakDb} dBFS`,
+    `${round(metrics.clippingRatio * 100, 2)}% clipped`,
+    `SNR ${metrics.snrDb} dB`,
+    `${Math.round(metrics.speechRatio * 100)}% speech`,
+    `longest gap ${metrics.longestSilenceSeconds}s`,
+  ].join(", ");
+}
@@ -0,0 +1,131 @@
+import { getSubmissionRepository, type Submission } from "@/lib/submissions";
+import { getCampaign, getCampaignPreset } from "@/lib/campaigns";
+import { getScript } from "@/lib/scripts";
+import { measureStoredAudio } from "@/lib/raw-audio";
+import { createJob } from "@/lib/jobs";
+import { acquireEnhancementSlot, releaseEnhancementSlot } from "@/lib/rate-limit";
+import { runEnhancementJob } from "@/lib/enhancement-pipeline";
+
+/**
+ * Why a submission cannot be reprocessed, or null when it can
+ */
+export function getReprocessError(submission: Submission): string | null {
+  if (submission.status === "processing") {
+    return "Submission is still processing";
+  }
+  if (!submission.rawKey || !submission.rawFileName) {
+    return "Submission has no stored raw audio";
+  }
+  return null;
+}
+
+/**
+ * A reprocess that cannot start; the message is safe to show to operators
+ */
+export class ReprocessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReprocessError";
+  }
+}
+
+/**
+ * A reprocess whose submission is already marked processing under its new job
+ */
+export interface StartedReprocess {
+  jobId: string;
+  /** Run the pipeline; resolves once it has finished and its enhancement slot is released */
+  run(): Promise<void>;
+}
+
+// Reprocesses being started in this process, so a double click cannot pass the status check twice
+const startingSubmissions = new Set<string>();
+
+/**
+ * Check a submission can run again, take an enhancement slot and mark it processing under a new job,
+ * all before returning, so a second click sees it processing. Throws ReprocessError when it cannot start.
+ */
+export async function startReprocess(submissionId: string): Promise<StartedReprocess> {
+  if (startingSubmissions.has(submissionId)) {
+    throw new ReprocessError("Submission is already being reprocessed");
+  }
+  startingSubmissions.add(submissionId);
+
+  try {
+    // Read again now the submission is held, in case an earlier click already started it
+    const repository = getSubmissionRepository();
+    const submission = await repository.get(submissionId);
+    if (!submission) {
+      throw new ReprocessError("Submission no longer exists");
+    }
+    const reprocessError = getReprocessError(submission);
+    if (reprocessError) {
+      throw new ReprocessError(reprocessError);
+    }
+
+    const campaign = getCampaign(submission.campaignId);
+    const script = getScript(submission.scriptId);
+    const preset = campaign && getCampaignPreset(campaign, submission.presetId);
+    if (!campaign || !script || !preset) {
+      throw new ReprocessError("Submission refers to a campaign, script or preset that no longer exists");
+    }
+
+    const stored = await measureStoredAudio(submission.rawKey!);
+    if (!stored) {
+      throw new ReprocessError("Stored raw audio is missing or unreadable");
+    }
+
+    const leaseId = await acquireEnhancementSlot();
+    const participant = {
+      name: submission.participant.name,
+      email: submission.participant.email || "",
+    };
+    let jobId: string;
+    try {
+      const job = await createJob(participant, campaign.id);
+      jobId = job.id;
+      // Earlier previews stay in storage, but the submission only points at what this run produces
+      await repository.update(submission.id, {
+        jobId,
+        status: "processing",
+        error: undefined,
+        enhancementError: undefined,
+        needsReprocessing: false,
+        enhancedKey: undefined,
+        enhancedFileName: undefined,
+        enhancedDuration: undefined,
+        previews: undefined,
+        promotedPreview: undefined,
+      });
+    } catch (error) {
+      await releaseEnhancementSlot(leaseId);
+      throw error;
+    }
+    console.log(`Reprocessing submission ${submission.id} as job ${jobId}`);
+
+    return {
+      jobId,
+      run: async () => {
+        try {
+          await runEnhancementJob(jobId, {
+            ...participant,
+            raw: { key: submission.rawKey!, fileName: submission.rawFileName!, size: stored.size },
+            audioType: stored.audioType,
+            probe: stored.probe,
+            script,
+            preset,
+            campaign,
+            consent: submission.consent,
+            recordingQuality: submission.recordingQuality,
+            submissionId: submission.id,
+            reprocessing: true,
+          });
+        } finally {
+          await releaseEnhancementSlot(leaseId);
+        }
+      },
+    };
+  } finally {
+    startingSubmissions.delete(submissionId);
+  }
+}
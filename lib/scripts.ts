@@ -0,0 +1,88 @@
+/**
+ * A passage participants read aloud; the remix transcript is derived from the same paragraphs
+ */
+export interface ReadingScript {
+  id: string;
+  title: string;
+  /** BCP 47 language tag */
+  language: string;
+  paragraphs: string[];
+}
+
+// Voice remix accepts at most 1000 characters (approximately 1 minute of audio at 150 words/min)
+export const MAX_REMIX_TEXT_LENGTH = 1000;
+
+export const SCRIPTS: ReadingScript[] = [
+  {
+    id: "calm-confidence",
+    title: "Calm Confidence",
+    language: "en",
+    paragraphs: [
+      "When you listen closely to this voice, you hear more than sound — you hear intention.",
+      "There's a calm confidence here, the kind that doesn't rush to prove itself. The words arrive clearly, shaped with care, each syllable landing just long enough to be understood.",
+      "You can sense curiosity underneath — a mind that's always moving, always exploring, even in the quiet moments between sentences. There's a gentle rhythm in the way this person speaks… a natural pause before important ideas, a subtle lift when something matters.",
+      "This is a voice that's comfortable thinking out loud. Thoughtful, grounded, and quietly expressive. When excitement appears, it doesn't shout — it glows. And when there's uncertainty, it shows honesty, not hesitation.",
+      "What stands out most is the balance: clarity without stiffness, warmth without noise. This voice doesn't just communicate — it connects. And in that connection, you hear someone who knows where they are, and is curious about where they're going.",
+    ],
+  },
+  {
+    id: "morning-market",
+    title: "The Morning Market",
+    language: "en",
+    paragraphs: [
+      "Early in the morning, before the city is fully awake, the market begins to hum. Vendors unfold their tables, stack bright pyramids of fruit, and greet each other by name.",
+      "There's a rhythm to it — a kind of music made of crates and conversations. Someone laughs at a joke you didn't hear. Someone else is already bargaining, patient and polite, over the price of fresh bread.",
+      "Walk a little further and the smells change: coffee, then citrus, then warm spices drifting from a stall you almost missed. Every corner offers something new, and nobody seems to be in a hurry.",
+      "By the time the sun is high, the market has become a small world of its own. And if you stand still for a moment and simply listen… you can hear the whole city saying good morning.",
+    ],
+  },
+];
+
+/**
+ * Flatten a script into the plain text sent to voice remix.
+ * Dashes and ellipses become commas so the generated read keeps the same pauses without odd glyphs.
+ */
+export function getRemixText(script: ReadingScript): string {
+  return script.paragraphs
+    .join(" ")
+    .replace(/\s*[—–]\s*/g, ", ")
+    .replace(/\s*…\s*/g, ", ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Fail fast on a malformed registry rather than at remix time
+ */
+function validateScripts(scripts: ReadingScript[]): void {
+  const ids = new Set<string>();
+
+  for (const script of scripts) {
+    if (!/^[a-z0-9-]+$/.test(script.id)) {
+      throw new Error(`Invalid script id "${script.id}"`);
+    }
+    if (ids.has(script.id)) {
+      throw new Error(`Duplicate script id "${script.id}"`);
+    }
+    ids.add(script.id);
+
+    if (script.paragraphs.length === 0) {
+      throw new Error(`Script "${script.id}" has no paragraphs`);
+    }
+    const remixLength = getRemixText(script).length;
+    if (remixLength > MAX_REMIX_TEXT_LENGTH) {
+      throw new Error(
+        `Script "${script.id}" is ${remixLength} characters; remix text must be at most ${MAX_REMIX_TEXT_LENGTH}`
+      );
+    }
+  }
+}
+
+validateScripts(SCRIPTS);
+
+/**
+ * Look up a script by id
+ */
+export function getScript(id: string | null | undefined): ReadingScript | null {
+  return SCRIPTS.find((script) => script.id === id) || null;
+}
@@ -0,0 +1,264 @@
+import crypto from "crypto";
+import { getSubmissionRepository, type SubmissionReview } from "@/lib/submissions";
+import { sendParticipantEmail } from "@/lib/mailer";
+import { getPlaybackUrls } from "@/lib/admin";
+import { ReprocessError, startReprocess, type StartedReprocess } from "@/lib/reprocess";
+import { SLACK_REVIEW_ACTIONS, SLACK_REVIEW_BLOCK_ID } from "@/lib/notifications/slack";
+
+// Slack rejects replays older than five minutes; we do the same
+const MAX_REQUEST_AGE_SECONDS = 60 * 5;
+
+interface SlackBlock {
+  type: string;
+  block_id?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * The parts of a block_actions payload we use
+ */
+export interface SlackBlockActionsPayload {
+  type: "block_actions";
+  user: { id: string; username?: string; name?: string };
+  actions: { action_id: string; value?: string }[];
+  response_url: string;
+  message?: { text?: string; blocks?: SlackBlock[] };
+}
+
+/**
+ * Check X-Slack-Signature against the signing secret; stale timestamps fail
+ */
+export function verifySlackSignature(
+  secret: string,
+  timestamp: string | null,
+  rawBody: string,
+  signature: string | null
+): boolean {
+  if (!timestamp || !signature) {
+    return false;
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > MAX_REQUEST_AGE_SECONDS) {
+    return false;
+  }
+
+  const expected = `v0=${crypto
+    .createHmac("sha256", secret)
+    .update(`v0:${timestamp}:${rawBody}`)
+    .digest("hex")}`;
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature);
+  return (
+    expectedBuffer.length === signatureBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, signatureBuffer)
+  );
+}
+
+/**
+ * Parse the form-encoded `payload` field; null for anything but button clicks
+ */
+export function parseSlackInteraction(rawBody: string): SlackBlockActionsPayload | null {
+  try {
+    const payload = JSON.parse(new URLSearchParams(rawBody).get("payload") || "null");
+    if (payload?.type !== "block_actions" || !Array.isArray(payload.actions)) {
+      return null;
+    }
+    return payload as SlackBlockActionsPayload;
+  } catch {
+    return null;
+  }
+}
+
+async function respond(responseUrl: string, message: Record<string, unknown>) {
+  const response = await fetch(responseUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(message),
+  });
+  if (!response.ok) {
+    console.error(`Slack response_url returned ${response.status}`);
+  }
+}
+
+/**
+ * Replace the original message's buttons with who acted and when
+ */
+function updateOriginalMessage(payload: SlackBlockActionsPayload, outcome: string, at: Date) {
+  const blocks = (payload.message?.blocks || []).filter(
+    (block) => block.block_id !== SLACK_REVIEW_BLOCK_ID
+  );
+  const unixTime = Math.floor(at.getTime() / 1000);
+  const acted = {
+    type: "context",
+    elements: [{
+      type: "mrkdwn",
+      text: `${outcome} by <@${payload.user.id}> <!date^${unixTime}^{date_short_pretty} at {time}|${at.toISOString()}>`,
+    }],
+  };
+
+  // Keep the trailing divider last
+  const dividerIndex = blocks.length - 1;
+  if (dividerIndex >= 0 && blocks[dividerIndex].type === "divider") {
+    blocks.splice(dividerIndex, 0, acted);
+  } else {
+    blocks.push(acted);
+  }
+
+  return respond(payload.response_url, {
+    replace_original: true,
+    text: payload.message?.text || outcome,
+    blocks,
+  });
+}
+
+function replyEphemeral(payload: SlackBlockActionsPayload, text: string) {
+  return respond(payload.response_url, {
+    response_type: "ephemeral",
+    replace_original: false,
+    text,
+  });
+}
+
+// Approvals being sent in this process, so a Slack retry or a second reviewer cannot email the participant twice
+const approvingSubmissions = new Set<string>();
+
+/**
+ * Record an approval, then send the participant the "ready" email.
+ * Returns the outcome to show on the message, or null once the operator has been told why not.
+ */
+async function approveSubmission(
+  payload: SlackBlockActionsPayload,
+  submissionId: string,
+  review: SubmissionReview
+): Promise<string | null> {
+  if (approvingSubmissions.has(submissionId)) {
+    await replyEphemeral(payload, "That submission is already being approved.");
+    return null;
+  }
+  approvingSubmissions.add(submissionId);
+
+  try {
+    // Read again now the submission is held, in case an earlier click already approved it
+    const repository = getSubmissionRepository();
+    const submission = await repository.get(submissionId);
+    if (!submission) {
+      await replyEphemeral(payload, "That submission no longer exists.");
+      return null;
+    }
+
+    // A reprocess produces new audio, which needs approving again
+    const approved = submission.reviews
+      ?.filter((existing) => existing.action !== "rejected")
+      .at(-1);
+    if (approved?.action === "approved") {
+      await replyEphemeral(payload, `Already approved by ${approved.by} at ${approved.at}.`);
+      return null;
+    }
+    const urls = await getPlaybackUrls(submission);
+    if (!urls.enhanced || !submission.participant.email) {
+      await replyEphemeral(payload, "There is no enhanced audio or participant email to send.");
+      return null;
+    }
+
+    await repository.update(submission.id, {
+      reviews: [...(submission.reviews || []), review],
+    });
+    const record = await sendParticipantEmail(submission, "ready", {
+      enhancedUrl: urls.enhanced,
+      rawUrl: urls.raw,
+    });
+    return record.status === "sent"
+      ? "✅ Approved and emailed"
+      : `✅ Approved; the email will be retried (${record.lastError})`;
+  } finally {
+    approvingSubmissions.delete(submissionId);
+  }
+}
+
+/**
+ * Carry out an Approve & send, Reject or Reprocess click.
+ * Never throws; problems are reported back to the operator as an ephemeral message.
+ */
+export async function handleSlackInteraction(payload: SlackBlockActionsPayload): Promise<void> {
+  const action = payload.actions.find((candidate) =>
+    Object.values(SLACK_REVIEW_ACTIONS).includes(
+      candidate.action_id as (typeof SLACK_REVIEW_ACTIONS)[keyof typeof SLACK_REVIEW_ACTIONS]
+    )
+  );
+  if (!action?.value) {
+    return;
+  }
+
+  try {
+    const repository = getSubmissionRepository();
+    const submission = await repository.get(action.value);
+    if (!submission) {
+      await replyEphemeral(payload, "That submission no longer exists.");
+      return;
+    }
+
+    const at = new Date();
+    const review: SubmissionReview = {
+      action: "approved",
+      by: `${payload.user.username || payload.user.name || "unknown"} (${payload.user.id})`,
+      at: at.toISOString(),
+    };
+    let outcome: string;
+    let reprocess: StartedReprocess | undefined;
+
+    switch (action.action_id) {
+      case SLACK_REVIEW_ACTIONS.approve: {
+        const approvedOutcome = await approveSubmission(payload, submission.id, review);
+        if (!approvedOutcome) {
+          return;
+        }
+        outcome = approvedOutcome;
+        break;
+      }
+      case SLACK_REVIEW_ACTIONS.reject:
+        review.action = "rejected";
+        outcome = "🚫 Rejected";
+        break;
+      case SLACK_REVIEW_ACTIONS.reprocess: {
+        // Marks the submission processing before anything else, so a second click is turned away
+        try {
+          reprocess = await startReprocess(submission.id);
+        } catch (error) {
+          if (error instanceof ReprocessError) {
+            await replyEphemeral(payload, `Cannot reprocess: ${error.message}.`);
+            return;
+          }
+          throw error;
+        }
+        review.action = "reprocess";
+        outcome = "🔁 Reprocessing requested";
+        break;
+      }
+      default:
+        return;
+    }
+
+    try {
+      // Approvals are recorded before their email goes out
+      if (review.action !== "approved") {
+        await repository.update(submission.id, {
+          reviews: [...(submission.reviews || []), review],
+        });
+      }
+      await updateOriginalMessage(payload, outcome, at);
+      console.log(`Slack review: ${review.action} ${submission.id} by ${review.by}`);
+    } finally {
+      // Once started, the run goes ahead and posts its own notification when it finishes
+      if (reprocess) {
+        await reprocess.run();
+      }
+    }
+  } catch (error) {
+    console.error("Slack interaction error:", error);
+    await replyEphemeral(
+      payload,
+      `Something went wrong: ${error instanceof Error ? error.message : "Unknown error"}`
+    ).catch(() => {});
+  }
+}
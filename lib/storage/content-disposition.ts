@@ -0,0 +1,15 @@
+/**
+ * Content-Disposition that downloads as fileName. The quoted filename is an ASCII fallback for old
+ * clients; filename* carries the real name (RFC 5987), so names with accents, emoji or quotes survive.
+ */
+export function getAttachmentDisposition(fileName: string): string {
+  const fallback = fileName
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,132 @@
+import { randomBytes } from "crypto";
+import fs from "fs";
+import path from "path";
+import { getDataDir } from "@/lib/data-dir";
+import { getPublicBaseUrl } from "@/lib/public-url";
+import { createS3Store } from "./s3";
+import { createLocalStore, type LocalAudioStore } from "./local";
+import type { AudioStore } from "./types";
+
+export type {
+  AudioStore,
+  PutObjectOptions,
+  StoredObject,
+  StoredObjectInfo,
+  UploadedPart,
+} from "./types";
+export type { LocalAudioStore } from "./local";
+export { getAttachmentDisposition } from "./content-disposition";
+
+const DEFAULT_URL_EXPIRY_SECONDS = 604800; // 7 days
+const UPLOAD_URL_EXPIRY_SECONDS = 3600; // 1 hour; clients ask for fresh links when resuming
+
+let cachedStore: AudioStore | undefined;
+
+function getUrlExpirySeconds(): number {
+  return parseInt(process.env.PRESIGNED_URL_EXPIRY || "", 10) || DEFAULT_URL_EXPIRY_SECONDS;
+}
+
+function createConfiguredS3Store(): AudioStore {
+  const required = ["AWS_S3_BUCKET", "AWS_ACCESS_KEY_ID", "AWS_SECRET_ACCESS_KEY"] as const;
+  const missing = required.filter((name) => !process.env[name]);
+  if (missing.length > 0) {
+    throw new Error(`S3 storage is not configured: missing ${missing.join(", ")}`);
+  }
+
+  return createS3Store({
+    bucket: process.env.AWS_S3_BUCKET!,
+    region: process.env.AWS_REGION || "us-east-1",
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+    urlExpirySeconds: getUrlExpirySeconds(),
+    uploadUrlExpirySeconds: UPLOAD_URL_EXPIRY_SECONDS,
+  });
+}
+
+/**
+ * Use LOCAL_STORAGE_SECRET, or a random secret kept in the data dir so links survive restarts
+ */
+function getLocalStorageSecret(): string {
+  if (process.env.LOCAL_STORAGE_SECRET) {
+    return process.env.LOCAL_STORAGE_SECRET;
+  }
+
+  const secretPath = path.join(getDataDir(), "local-storage.secret");
+  try {
+    return fs.readFileSync(secretPath, "utf8").trim();
+  } catch {
+    const secret = randomBytes(32).toString("hex");
+    fs.mkdirSync(path.dirname(secretPath), { recursive: true });
+    fs.writeFileSync(secretPath, secret, { mode: 0o600 });
+    return secret;
+  }
+}
+
+function createConfiguredLocalStore(): LocalAudioStore {
+  return createLocalStore({
+    rootDir: process.env.LOCAL_STORAGE_DIR || path.join(getDataDir(), "storage"),
+    baseUrl: getPublicBaseUrl(),
+    secret: getLocalStorageSecret(),
+    urlExpirySeconds: getUrlExpirySeconds(),
+    uploadUrlExpirySeconds: UPLOAD_URL_EXPIRY_SECONDS,
+  });
+}
+
+/**
+ * Resolve the audio store from STORAGE_DRIVER.
+ * Defaults to S3 when a bucket is configured, otherwise local disk.
+ */
+export function getAudioStore(): AudioStore {
+  if (cachedStore) {
+    return cachedStore;
+  }
+
+  const driver = process.env.STORAGE_DRIVER || (process.env.AWS_S3_BUCKET ? "s3" : "local");
+
+  switch (driver) {
+    case "s3":
+      cachedStore = createConfiguredS3Store();
+      break;
+    case "local":
+      cachedStore = createConfiguredLocalStore();
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+
+  return cachedStore;
+}
+
+/**
+ * The configured store if it is the local-disk driver, otherwise null
+ */
+export function getLocalAudioStore(): LocalAudioStore | null {
+  const store = getAudioStore();
+  return store.id === "local" ? (store as LocalAudioStore) : null;
+}
+
+/**
+ * Sanitize filename to remove special characters
+ */
+export function sanitizeFilename(filename: string): string {
+  return filename
+    .replace(/[^a-zA-Z0-9.-]/g, "-")
+    .replace(/-+/g, "-")
+    .toLowerCase();
+}
+
+/**
+ * Generate a unique storage key for the file under its campaign's prefix, using the extension of its detected type
+ */
+export function generateStorageKey(prefix: string, userName: string, extension: string): string {
+  const timestamp = Date.now();
+  const sanitizedName = sanitizeFilename(userName);
+  return `${prefix}${timestamp}-${sanitizedName}.${extension}`;
+}
+
+/**
+ * Get file size in MB
+ */
+export function getFileSizeInMB(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(2);
+}
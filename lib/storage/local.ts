@@ -0,0 +1,463 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import path from "path";
+import type {
+  AudioStore,
+  PutObjectOptions,
+  StoredObject,
+  StoredObjectInfo,
+  UploadedPart,
+} from "./types";
+
+export interface LocalStoreConfig {
+  rootDir: string;
+  /** Origin used to build absolute download links, e.g. http://localhost:3000 */
+  baseUrl: string;
+  /** Secret for signing download links */
+  secret: string;
+  /** Lifetime of signed download links in seconds */
+  urlExpirySeconds: number;
+  /** Lifetime of signed upload-part links in seconds */
+  uploadUrlExpirySeconds: number;
+}
+
+/**
+ * Local store plus what its storage route needs to serve signed download and upload-part links
+ */
+export interface LocalAudioStore extends AudioStore {
+  verifySignature(key: string, expires: number, fileName: string, signature: string): boolean;
+  verifyPartSignature(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expires: number,
+    signature: string
+  ): boolean;
+  /** Size and content type for download headers; null when the object does not exist */
+  getInfo(key: string): Promise<{ size: number; contentType: string } | null>;
+  /** Stream one part of a multipart upload to disk; returns its ETag */
+  putPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: AsyncIterable<Uint8Array>
+  ): Promise<string>;
+}
+
+interface ObjectMetadata {
+  contentType: string;
+  fileName: string;
+  tags?: Record<string, string>;
+}
+
+const METADATA_SUFFIX = ".meta.json";
+// Streamed objects, copies and parts are written under a unique temp name, then renamed into place
+const TEMP_SUFFIX = ".tmp";
+
+// In-progress multipart uploads live under the root in a directory no key can reach
+const UPLOADS_DIR = ".uploads";
+const UPLOAD_METADATA_FILE = "upload.json";
+
+interface UploadMetadata extends ObjectMetadata {
+  key: string;
+}
+
+// Download links are served by app/api/storage/[...key]/route.ts
+export const LOCAL_STORAGE_ROUTE = "/api/storage";
+
+/**
+ * Keys are relative paths like "ces-demo-audio/123-name.webm"; refuse anything that could escape the root
+ */
+function assertSafeKey(key: string): void {
+  const segments = key.split("/");
+  if (
+    !/^[a-zA-Z0-9._\-/]+$/.test(key) ||
+    segments.some((segment) => segment === "" || segment.startsWith("."))
+  ) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+function signPayload(secret: string, key: string, expires: number, fileName: string): string {
+  return createHmac("sha256", secret).update(`${key}\n${expires}\n${fileName}`).digest("hex");
+}
+
+function signPartPayload(
+  secret: string,
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  expires: number
+): string {
+  return createHmac("sha256", secret)
+    .update(`PUT\n${key}\n${expires}\n${uploadId}\n${partNumber}`)
+    .digest("hex");
+}
+
+function matchesSignature(expectedHex: string, signature: string): boolean {
+  // Buffer.from silently drops invalid hex, so check the format before comparing
+  if (!/^[0-9a-f]{64}$/.test(signature)) {
+    return false;
+  }
+  const expected = Buffer.from(expectedHex, "hex");
+  const provided = Buffer.from(signature, "hex");
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+function partFileName(partNumber: number): string {
+  return `part-${partNumber.toString().padStart(5, "0")}`;
+}
+
+/**
+ * Create an audio store that keeps objects on local disk and signs links served by a Next route
+ */
+export function createLocalStore(config: LocalStoreConfig): LocalAudioStore {
+  const resolvePath = (key: string) => {
+    assertSafeKey(key);
+    return path.join(config.rootDir, key);
+  };
+
+  async function put(key: string, body: Buffer, options: PutObjectOptions): Promise<void> {
+    const filePath = resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    const metadata: ObjectMetadata = {
+      contentType: options.contentType,
+      fileName: options.fileName,
+      tags: options.tags,
+    };
+    await fs.writeFile(`${filePath}${METADATA_SUFFIX}`, JSON.stringify(metadata));
+  }
+
+  async function putStream(
+    key: string,
+    body: AsyncIterable<Uint8Array>,
+    options: PutObjectOptions
+  ): Promise<void> {
+    const filePath = resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Readers never see a partly written object, and a failed stream leaves nothing behind
+    const tempPath = `${filePath}.${randomUUID()}${TEMP_SUFFIX}`;
+    try {
+      await pipeline(Readable.from(body), createWriteStream(tempPath));
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+    await fs.rename(tempPath, filePath);
+
+    const metadata: ObjectMetadata = {
+      contentType: options.contentType,
+      fileName: options.fileName,
+      tags: options.tags,
+    };
+    await fs.writeFile(`${filePath}${METADATA_SUFFIX}`, JSON.stringify(metadata));
+  }
+
+  async function copy(sourceKey: string, key: string, options: PutObjectOptions): Promise<void> {
+    const sourcePath = resolvePath(sourceKey);
+    const filePath = resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    const tempPath = `${filePath}.${randomUUID()}${TEMP_SUFFIX}`;
+    await fs.copyFile(sourcePath, tempPath);
+    await fs.rename(tempPath, filePath);
+
+    const metadata: ObjectMetadata = {
+      contentType: options.contentType,
+      fileName: options.fileName,
+      tags: options.tags,
+    };
+    await fs.writeFile(`${filePath}${METADATA_SUFFIX}`, JSON.stringify(metadata));
+  }
+
+  async function readMetadata(filePath: string): Promise<ObjectMetadata | null> {
+    try {
+      return JSON.parse(await fs.readFile(`${filePath}${METADATA_SUFFIX}`, "utf8"));
+    } catch {
+      return null;
+    }
+  }
+
+  async function get(key: string): Promise<StoredObject | null> {
+    const filePath = resolvePath(key);
+    try {
+      const body = await fs.readFile(filePath);
+      const metadata = await readMetadata(filePath);
+      return {
+        body,
+        contentType: metadata?.contentType || "application/octet-stream",
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async function getInfo(key: string): Promise<{ size: number; contentType: string } | null> {
+    const filePath = resolvePath(key);
+    try {
+      const stats = await fs.stat(filePath);
+      const metadata = await readMetadata(filePath);
+      return {
+        size: stats.size,
+        contentType: metadata?.contentType || "application/octet-stream",
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async function getStream(key: string): Promise<AsyncIterable<Uint8Array> | null> {
+    const filePath = resolvePath(key);
+    try {
+      await fs.access(filePath);
+    } catch {
+      return null;
+    }
+    return createReadStream(filePath);
+  }
+
+  async function getSignedUrl(key: string, fileName: string): Promise<string> {
+    assertSafeKey(key);
+    const expires = Math.floor(Date.now() / 1000) + config.urlExpirySeconds;
+    const signature = signPayload(config.secret, key, expires, fileName);
+    const url = new URL(`${LOCAL_STORAGE_ROUTE}/${key}`, config.baseUrl);
+    url.searchParams.set("expires", expires.toString());
+    url.searchParams.set("filename", fileName);
+    url.searchParams.set("signature", signature);
+    return url.toString();
+  }
+
+  function verifySignature(
+    key: string,
+    expires: number,
+    fileName: string,
+    signature: string
+  ): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+    return matchesSignature(signPayload(config.secret, key, expires, fileName), signature);
+  }
+
+  async function remove(key: string): Promise<void> {
+    const filePath = resolvePath(key);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(`${filePath}${METADATA_SUFFIX}`, { force: true });
+  }
+
+  async function list(prefix: string): Promise<StoredObjectInfo[]> {
+    const objects: StoredObjectInfo[] = [];
+
+    const walk = async (dir: string) => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+        throw error;
+      }
+
+      for (const entry of entries) {
+        if (entry.name.startsWith(".")) continue;
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (!entry.name.endsWith(METADATA_SUFFIX) && !entry.name.endsWith(TEMP_SUFFIX)) {
+          const key = path.relative(config.rootDir, entryPath).split(path.sep).join("/");
+          if (key.startsWith(prefix)) {
+            const stats = await fs.stat(entryPath);
+            objects.push({ key, size: stats.size, lastModified: stats.mtime });
+          }
+        }
+      }
+    };
+
+    await walk(config.rootDir);
+    return objects.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  const resolveUploadDir = (uploadId: string) => {
+    if (!/^[0-9a-f]{32}$/.test(uploadId)) {
+      throw new Error(`Invalid upload id: ${uploadId}`);
+    }
+    return path.join(config.rootDir, UPLOADS_DIR, uploadId);
+  };
+
+  /**
+   * The upload's metadata, or null when it does not exist or belongs to another key
+   */
+  async function readUpload(key: string, uploadId: string): Promise<UploadMetadata | null> {
+    try {
+      const upload: UploadMetadata = JSON.parse(
+        await fs.readFile(path.join(resolveUploadDir(uploadId), UPLOAD_METADATA_FILE), "utf8")
+      );
+      return upload.key === key ? upload : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async function createMultipartUpload(key: string, options: PutObjectOptions): Promise<string> {
+    assertSafeKey(key);
+    const uploadId = randomBytes(16).toString("hex");
+    const uploadDir = resolveUploadDir(uploadId);
+    await fs.mkdir(uploadDir, { recursive: true });
+    const upload: UploadMetadata = {
+      key,
+      contentType: options.contentType,
+      fileName: options.fileName,
+      tags: options.tags,
+    };
+    await fs.writeFile(path.join(uploadDir, UPLOAD_METADATA_FILE), JSON.stringify(upload));
+    return uploadId;
+  }
+
+  async function getUploadPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number
+  ): Promise<string> {
+    assertSafeKey(key);
+    const expires = Math.floor(Date.now() / 1000) + config.uploadUrlExpirySeconds;
+    const signature = signPartPayload(config.secret, key, uploadId, partNumber, expires);
+    const url = new URL(`${LOCAL_STORAGE_ROUTE}/${key}`, config.baseUrl);
+    url.searchParams.set("uploadId", uploadId);
+    url.searchParams.set("partNumber", partNumber.toString());
+    url.searchParams.set("expires", expires.toString());
+    url.searchParams.set("signature", signature);
+    return url.toString();
+  }
+
+  function verifyPartSignature(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expires: number,
+    signature: string
+  ): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+    return matchesSignature(
+      signPartPayload(config.secret, key, uploadId, partNumber, expires),
+      signature
+    );
+  }
+
+  async function putPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: AsyncIterable<Uint8Array>
+  ): Promise<string> {
+    if (!(await readUpload(key, uploadId))) {
+      throw new Error(`No multipart upload ${uploadId} for ${key}`);
+    }
+    // A resent part replaces the earlier copy; the rename keeps a half-written part from being joined
+    const partPath = path.join(resolveUploadDir(uploadId), partFileName(partNumber));
+    const tempPath = `${partPath}.${randomUUID()}${TEMP_SUFFIX}`;
+    const md5 = createHash("md5");
+    async function* hashed(): AsyncGenerator<Uint8Array> {
+      for await (const chunk of body) {
+        md5.update(chunk);
+        yield chunk;
+      }
+    }
+
+    try {
+      await pipeline(Readable.from(hashed()), createWriteStream(tempPath));
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+    await fs.rename(tempPath, partPath);
+    return `"${md5.digest("hex")}"`;
+  }
+
+  async function listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+    if (!(await readUpload(key, uploadId))) {
+      return [];
+    }
+    const uploadDir = resolveUploadDir(uploadId);
+    const parts: UploadedPart[] = [];
+    for (const name of await fs.readdir(uploadDir)) {
+      const match = /^part-(\d{5})$/.exec(name);
+      if (match) {
+        const stats = await fs.stat(path.join(uploadDir, name));
+        parts.push({ partNumber: parseInt(match[1], 10), size: stats.size });
+      }
+    }
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  async function completeMultipartUpload(key: string, uploadId: string): Promise<void> {
+    const upload = await readUpload(key, uploadId);
+    if (!upload) {
+      throw new Error(`No multipart upload ${uploadId} for ${key}`);
+    }
+
+    const uploadDir = resolveUploadDir(uploadId);
+    const filePath = resolvePath(key);
+    const tempPath = `${filePath}.${randomUUID()}${TEMP_SUFFIX}`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // One part in memory at a time
+    const output = await fs.open(tempPath, "w");
+    try {
+      for (const part of await listUploadedParts(key, uploadId)) {
+        await output.write(await fs.readFile(path.join(uploadDir, partFileName(part.partNumber))));
+      }
+    } finally {
+      await output.close();
+    }
+
+    await fs.rename(tempPath, filePath);
+    const metadata: ObjectMetadata = {
+      contentType: upload.contentType,
+      fileName: upload.fileName,
+      tags: upload.tags,
+    };
+    await fs.writeFile(`${filePath}${METADATA_SUFFIX}`, JSON.stringify(metadata));
+    await fs.rm(uploadDir, { recursive: true, force: true });
+  }
+
+  async function abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    if (await readUpload(key, uploadId)) {
+      await fs.rm(resolveUploadDir(uploadId), { recursive: true, force: true });
+    }
+  }
+
+  return {
+    id: "local",
+    put,
+    putStream,
+    copy,
+    get,
+    getStream,
+    getInfo,
+    getSignedUrl,
+    delete: remove,
+    list,
+    verifySignature,
+    createMultipartUpload,
+    getUploadPartUrl,
+    listUploadedParts,
+    completeMultipartUpload,
+    abortMultipartUpload,
+    verifyPartSignature,
+    putPart,
+  };
+}
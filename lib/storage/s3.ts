@@ -0,0 +1,356 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  CopyObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  type Part,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { getAttachmentDisposition } from "./content-disposition";
+import type {
+  AudioStore,
+  PutObjectOptions,
+  StoredObject,
+  StoredObjectInfo,
+  UploadedPart,
+} from "./types";
+
+// Parts buffered by putStream; S3 needs at least 5MB for every part but the last
+const STREAM_PART_SIZE = 5 * 1024 * 1024;
+
+export interface S3StoreConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Lifetime of signed download links in seconds */
+  urlExpirySeconds: number;
+  /** Lifetime of signed upload-part links in seconds */
+  uploadUrlExpirySeconds: number;
+}
+
+/**
+ * Create an audio store backed by an S3 bucket
+ */
+export function createS3Store(config: S3StoreConfig): AudioStore {
+  // Initialize S3 client
+  const s3Client = new S3Client({
+    region: config.region,
+    credentials: {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    },
+  });
+
+  /**
+   * Upload file to S3
+   */
+  async function put(
+    key: string,
+    body: Buffer,
+    { contentType, fileName, tags }: PutObjectOptions
+  ): Promise<void> {
+    const command = new PutObjectCommand({
+      Bucket: config.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      ContentDisposition: getAttachmentDisposition(fileName),
+      Metadata: tags,
+    });
+
+    await s3Client.send(command);
+  }
+
+  /**
+   * Stream to S3 as a multipart upload; bodies smaller than one part go up in a single request
+   */
+  async function putStream(
+    key: string,
+    body: AsyncIterable<Uint8Array>,
+    options: PutObjectOptions
+  ): Promise<void> {
+    let pending: Uint8Array[] = [];
+    let pendingSize = 0;
+    let uploadId: string | undefined;
+    const parts: { PartNumber: number; ETag?: string }[] = [];
+
+    const uploadPendingPart = async (id: string) => {
+      const partNumber = parts.length + 1;
+      const response = await s3Client.send(
+        new UploadPartCommand({
+          Bucket: config.bucket,
+          Key: key,
+          UploadId: id,
+          PartNumber: partNumber,
+          Body: Buffer.concat(pending),
+        })
+      );
+      parts.push({ PartNumber: partNumber, ETag: response.ETag });
+      pending = [];
+      pendingSize = 0;
+    };
+
+    try {
+      for await (const chunk of body) {
+        pending.push(chunk);
+        pendingSize += chunk.length;
+        if (pendingSize >= STREAM_PART_SIZE) {
+          uploadId ??= await createMultipartUpload(key, options);
+          await uploadPendingPart(uploadId);
+        }
+      }
+
+      if (!uploadId) {
+        await put(key, Buffer.concat(pending), options);
+        return;
+      }
+      if (pendingSize > 0) {
+        await uploadPendingPart(uploadId);
+      }
+      await s3Client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: config.bucket,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: { Parts: parts },
+        })
+      );
+    } catch (error) {
+      if (uploadId) {
+        await abortMultipartUpload(key, uploadId).catch((abortError) => {
+          console.error(`Failed to abort multipart upload of ${key}:`, abortError);
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Server-side copy; S3 copies objects up to 5GB in one request
+   */
+  async function copy(
+    sourceKey: string,
+    key: string,
+    { contentType, fileName, tags }: PutObjectOptions
+  ): Promise<void> {
+    await s3Client.send(
+      new CopyObjectCommand({
+        Bucket: config.bucket,
+        Key: key,
+        CopySource: encodeURI(`${config.bucket}/${sourceKey}`),
+        MetadataDirective: "REPLACE",
+        ContentType: contentType,
+        ContentDisposition: getAttachmentDisposition(fileName),
+        Metadata: tags,
+      })
+    );
+  }
+
+  async function get(key: string): Promise<StoredObject | null> {
+    try {
+      const response = await s3Client.send(
+        new GetObjectCommand({ Bucket: config.bucket, Key: key })
+      );
+      if (!response.Body) {
+        return null;
+      }
+      return {
+        body: Buffer.from(await response.Body.transformToByteArray()),
+        contentType: response.ContentType || "application/octet-stream",
+      };
+    } catch (error) {
+      if ((error as { name?: string }).name === "NoSuchKey") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async function getStream(key: string): Promise<AsyncIterable<Uint8Array> | null> {
+    try {
+      const response = await s3Client.send(
+        new GetObjectCommand({ Bucket: config.bucket, Key: key })
+      );
+      // In Node the body is a readable stream of Buffers
+      return (response.Body as AsyncIterable<Uint8Array> | undefined) || null;
+    } catch (error) {
+      if ((error as { name?: string }).name === "NoSuchKey") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Generate presigned URL for downloading the file
+   */
+  async function generatePresignedUrl(key: string, fileName: string): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: config.bucket,
+      Key: key,
+      ResponseContentDisposition: getAttachmentDisposition(fileName),
+    });
+
+    return getSignedUrl(s3Client, command, {
+      expiresIn: config.urlExpirySeconds,
+    });
+  }
+
+  async function remove(key: string): Promise<void> {
+    await s3Client.send(new DeleteObjectCommand({ Bucket: config.bucket, Key: key }));
+  }
+
+  async function list(prefix: string): Promise<StoredObjectInfo[]> {
+    const objects: StoredObjectInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: config.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      for (const object of response.Contents || []) {
+        if (object.Key) {
+          objects.push({
+            key: object.Key,
+            size: object.Size || 0,
+            lastModified: object.LastModified || new Date(0),
+          });
+        }
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async function createMultipartUpload(
+    key: string,
+    { contentType, fileName, tags }: PutObjectOptions
+  ): Promise<string> {
+    const response = await s3Client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: config.bucket,
+        Key: key,
+        ContentType: contentType,
+        ContentDisposition: getAttachmentDisposition(fileName),
+        Metadata: tags,
+      })
+    );
+    if (!response.UploadId) {
+      throw new Error(`S3 did not return an upload id for ${key}`);
+    }
+    return response.UploadId;
+  }
+
+  /**
+   * Presigned PUT for one part; the bucket's CORS rules must allow PUT from the app's origin
+   */
+  async function getUploadPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number
+  ): Promise<string> {
+    const command = new UploadPartCommand({
+      Bucket: config.bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+
+    return getSignedUrl(s3Client, command, {
+      expiresIn: config.uploadUrlExpirySeconds,
+    });
+  }
+
+  async function listParts(key: string, uploadId: string): Promise<Part[]> {
+    const parts: Part[] = [];
+    let partNumberMarker: string | undefined;
+
+    try {
+      do {
+        const response = await s3Client.send(
+          new ListPartsCommand({
+            Bucket: config.bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: partNumberMarker,
+          })
+        );
+        parts.push(...(response.Parts || []));
+        partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+      } while (partNumberMarker);
+    } catch (error) {
+      if ((error as { name?: string }).name === "NoSuchUpload") {
+        return [];
+      }
+      throw error;
+    }
+
+    return parts.sort((a, b) => (a.PartNumber || 0) - (b.PartNumber || 0));
+  }
+
+  async function listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+    return (await listParts(key, uploadId)).map((part) => ({
+      partNumber: part.PartNumber || 0,
+      size: part.Size || 0,
+    }));
+  }
+
+  async function completeMultipartUpload(key: string, uploadId: string): Promise<void> {
+    // ETags come from S3 rather than the browser, so the bucket need not expose the ETag header
+    const parts = await listParts(key, uploadId);
+    await s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: config.bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: parts.map((part) => ({ PartNumber: part.PartNumber, ETag: part.ETag })),
+        },
+      })
+    );
+  }
+
+  async function abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    try {
+      await s3Client.send(
+        new AbortMultipartUploadCommand({ Bucket: config.bucket, Key: key, UploadId: uploadId })
+      );
+    } catch (error) {
+      if ((error as { name?: string }).name !== "NoSuchUpload") {
+        throw error;
+      }
+    }
+  }
+
+  return {
+    id: "s3",
+    put,
+    putStream,
+    copy,
+    get,
+    getStream,
+    getSignedUrl: generatePresignedUrl,
+    delete: remove,
+    list,
+    createMultipartUpload,
+    getUploadPartUrl,
+    listUploadedParts,
+    completeMultipartUpload,
+    abortMultipartUpload,
+  };
+}
@@ -0,0 +1,55 @@
+export interface PutObjectOptions {
+  contentType: string;
+  /** Filename offered to browsers when the object is downloaded */
+  fileName: string;
+  /** Extra labels stored with the object, such as the campaign it belongs to */
+  tags?: Record<string, string>;
+}
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface StoredObjectInfo {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+/**
+ * A part of a multipart upload that has reached storage
+ */
+export interface UploadedPart {
+  partNumber: number;
+  size: number;
+}
+
+/**
+ * Where raw and enhanced audio are kept
+ */
+export interface AudioStore {
+  readonly id: string;
+  put(key: string, body: Buffer, options: PutObjectOptions): Promise<void>;
+  /** Store a body as it arrives, holding at most one upload part in memory; nothing is kept if it throws */
+  putStream(key: string, body: AsyncIterable<Uint8Array>, options: PutObjectOptions): Promise<void>;
+  /** Copy an object to a new key with its own content type and filename, without reading it into this process */
+  copy(sourceKey: string, key: string, options: PutObjectOptions): Promise<void>;
+  /** Returns null when the object does not exist */
+  get(key: string): Promise<StoredObject | null>;
+  /** Read an object in chunks; returns null when it does not exist */
+  getStream(key: string): Promise<AsyncIterable<Uint8Array> | null>;
+  /** Time-limited download link that forces a download with the given filename */
+  getSignedUrl(key: string, fileName: string): Promise<string>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<StoredObjectInfo[]>;
+  /** Start a multipart upload that clients send straight to storage; returns its upload id */
+  createMultipartUpload(key: string, options: PutObjectOptions): Promise<string>;
+  /** Time-limited link a client PUTs one part's bytes to */
+  getUploadPartUrl(key: string, uploadId: string, partNumber: number): Promise<string>;
+  /** Parts received so far, in part order; empty once the upload is completed or aborted */
+  listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]>;
+  /** Join every uploaded part, in part order, into the object at key */
+  completeMultipartUpload(key: string, uploadId: string): Promise<void>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
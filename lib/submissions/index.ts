@@ -0,0 +1,31 @@
+import path from "path";
+import { getDataDir } from "@/lib/data-dir";
+import { createJsonFileSubmissionRepository } from "./json-file";
+import type { SubmissionRepository } from "./types";
+
+export type {
+  NewSubmission,
+  Submission,
+  SubmissionChanges,
+  SubmissionIdentity,
+  SubmissionPreview,
+  SubmissionQuery,
+  SubmissionReview,
+  SubmissionRepository,
+  SubmissionStage,
+  SubmissionStatus,
+} from "./types";
+
+let cachedRepository: SubmissionRepository | undefined;
+
+/**
+ * Resolve the submission repository; records are JSON files under `submissions` in the data dir
+ */
+export function getSubmissionRepository(): SubmissionRepository {
+  if (!cachedRepository) {
+    cachedRepository = createJsonFileSubmissionRepository(
+      path.join(getDataDir(), "submissions")
+    );
+  }
+  return cachedRepository;
+}
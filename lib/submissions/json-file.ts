@@ -0,0 +1,156 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  NewSubmission,
+  Submission,
+  SubmissionChanges,
+  SubmissionIdentity,
+  SubmissionQuery,
+  SubmissionRepository,
+  SubmissionStage,
+} from "./types";
+
+function matchesQuery(submission: Submission, query: SubmissionQuery): boolean {
+  const day = submission.createdAt.slice(0, 10);
+  return (
+    (!query.status || submission.status === query.status) &&
+    (!query.campaignId || submission.campaignId === query.campaignId) &&
+    (query.needsReprocessing === undefined ||
+      !!submission.needsReprocessing === query.needsReprocessing) &&
+    (!query.from || day >= query.from) &&
+    (!query.to || day <= query.to)
+  );
+}
+
+/**
+ * Create a repository that keeps one JSON file per submission in a directory
+ */
+export function createJsonFileSubmissionRepository(dir: string): SubmissionRepository {
+  const getPath = (id: string) => path.join(dir, `${id}.json`);
+  // Tail of each submission's chain of pending updates, so read-modify-write runs one at a time per id
+  const updateQueues = new Map<string, Promise<unknown>>();
+
+  async function write(submission: Submission): Promise<void> {
+    await fs.mkdir(dir, { recursive: true });
+
+    // Write to a temp file first so readers never see a partial record
+    const filePath = getPath(submission.id);
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(submission, null, 2));
+    await fs.rename(tempPath, filePath);
+  }
+
+  async function get(id: string): Promise<Submission | null> {
+    // Submission ids are UUIDs; reject anything else before touching the filesystem
+    if (!/^[0-9a-f-]{36}$/i.test(id)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(getPath(id), "utf8")) as Submission;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async function create(input: NewSubmission): Promise<Submission> {
+    const now = new Date().toISOString();
+    const submission: Submission = {
+      ...input,
+      id: randomUUID(),
+      status: "processing",
+      stages: { received: now },
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await write(submission);
+    return submission;
+  }
+
+  async function applyChanges(
+    id: string,
+    changes: SubmissionChanges,
+    stage?: SubmissionStage
+  ): Promise<Submission> {
+    const previous = updateQueues.get(id) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const submission = await get(id);
+        if (!submission) {
+          throw new Error(`Submission not found: ${id}`);
+        }
+
+        const now = new Date().toISOString();
+        const updated: Submission = {
+          ...submission,
+          ...changes,
+          stages: stage ? { ...submission.stages, [stage]: now } : submission.stages,
+          updatedAt: now,
+        };
+
+        await write(updated);
+        return updated;
+      });
+
+    updateQueues.set(id, next);
+    try {
+      return await next;
+    } finally {
+      // Forget the chain once nothing else has queued behind this update
+      if (updateQueues.get(id) === next) {
+        updateQueues.delete(id);
+      }
+    }
+  }
+
+  async function readAll(): Promise<Submission[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const submissions = await Promise.all(
+      fileNames
+        .filter((fileName) => fileName.endsWith(".json"))
+        .map((fileName) => get(fileName.slice(0, -".json".length)))
+    );
+
+    return submissions
+      .filter((submission): submission is Submission => submission !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async function list(query: SubmissionQuery = {}): Promise<Submission[]> {
+    return (await readAll()).filter((submission) => matchesQuery(submission, query));
+  }
+
+  async function findDuplicates(identity: SubmissionIdentity): Promise<Submission[]> {
+    return (await readAll()).filter(
+      (submission) =>
+        (!identity.source || submission.source === identity.source) &&
+        (submission.contentHash === identity.contentHash ||
+          (!!identity.idempotencyKey && submission.idempotencyKey === identity.idempotencyKey))
+    );
+  }
+
+  return {
+    id: "json-file",
+    create,
+    get,
+    update: (id, changes) => applyChanges(id, changes),
+    markStage: (id, stage, changes = {}) => applyChanges(id, changes, stage),
+    list,
+    findDuplicates,
+  };
+}
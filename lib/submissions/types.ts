@@ -0,0 +1,133 @@
+import type { ConsentRecord } from "@/lib/consent";
+import type { RecordingQualityReport } from "@/lib/recording-quality";
+
+/**
+ * Outcome of a submission
+ */
+export type SubmissionStatus = "processing" | "enhanced" | "raw_only" | "failed";
+
+/**
+ * Milestones timestamped on a submission as its pipeline run reaches them
+ */
+export type SubmissionStage =
+  | "received"
+  | "raw_stored"
+  | "voice_cloned"
+  | "remixed"
+  | "enhanced_stored"
+  | "notified"
+  | "voice_deleted"
+  | "finished";
+
+/**
+ * One remix preview returned by the provider, stored so operators can audition it
+ */
+export interface SubmissionPreview {
+  key: string;
+  fileName: string;
+  mimeType: string;
+  duration: number;
+  /** Bytes */
+  size: number;
+}
+
+/**
+ * An operator decision on a submission, taken from the Slack message
+ */
+export interface SubmissionReview {
+  action: "approved" | "rejected" | "reprocess";
+  /** Who acted, e.g. "jane (U012AB3CD)" */
+  by: string;
+  at: string;
+}
+
+/**
+ * One recording sent to /api/enhance or /api/upload, kept whatever happens downstream
+ */
+export interface Submission {
+  id: string;
+  /** Route that received the recording */
+  source: "enhance" | "upload";
+  /** Background job running the pipeline, for /api/enhance submissions */
+  jobId?: string;
+  participant: {
+    name: string;
+    email?: string;
+  };
+  campaignId: string;
+  scriptId: string;
+  /** Enhancement preset requested; every enhanced file of the submission was made with it */
+  presetId?: string;
+  consent: ConsentRecord;
+  /** Client-generated key for the take, so retries of the same request are recognised */
+  idempotencyKey?: string;
+  /** SHA-256 of the uploaded bytes */
+  contentHash?: string;
+  rawKey?: string;
+  rawFileName?: string;
+  /** Measured from the upload */
+  rawDuration?: number;
+  rawAudioFormat?: string;
+  /** The page's check of the take, graded server-side; missing for clients that do not send one */
+  recordingQuality?: RecordingQualityReport;
+  /** The promoted preview; this is the file Slack and the participant get */
+  enhancedKey?: string;
+  enhancedFileName?: string;
+  enhancedDuration?: number;
+  /** Every preview the remix returned, in the provider's order */
+  previews?: SubmissionPreview[];
+  /** Index into previews of the canonical enhanced file; the first preview until an operator picks another */
+  promotedPreview?: number;
+  voiceId?: string;
+  status: SubmissionStatus;
+  /** Why the run stopped, for failed submissions */
+  error?: string;
+  /** Why enhancement was skipped when the raw audio still went through */
+  enhancementError?: string;
+  /** Enhancement failed for a transient reason (vendor outage, timeouts) and is worth running again */
+  needsReprocessing?: boolean;
+  /** Operator decisions, oldest first */
+  reviews?: SubmissionReview[];
+  /** ISO timestamp of each stage reached */
+  stages: Partial<Record<SubmissionStage, string>>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewSubmission = Omit<Submission, "id" | "status" | "stages" | "createdAt" | "updatedAt">;
+
+export type SubmissionChanges = Partial<Omit<Submission, "id" | "source" | "stages" | "createdAt">>;
+
+export interface SubmissionQuery {
+  status?: SubmissionStatus;
+  campaignId?: string;
+  needsReprocessing?: boolean;
+  /** Inclusive UTC dates as YYYY-MM-DD */
+  from?: string;
+  to?: string;
+}
+
+export interface SubmissionIdentity {
+  idempotencyKey?: string;
+  contentHash: string;
+  /** Only match submissions made through this route */
+  source?: Submission["source"];
+}
+
+/**
+ * Durable record of every submission and how far its pipeline got
+ */
+export interface SubmissionRepository {
+  readonly id: string;
+  /** Create a processing submission with its "received" stage stamped */
+  create(input: NewSubmission): Promise<Submission>;
+  /** Returns null when the submission does not exist */
+  get(id: string): Promise<Submission | null>;
+  update(id: string, changes: SubmissionChanges): Promise<Submission>;
+  /** Stamp a stage with the current time, applying any other changes at the same moment */
+  markStage(id: string, stage: SubmissionStage, changes?: SubmissionChanges): Promise<Submission>;
+  /** Matching submissions, newest first */
+  list(query?: SubmissionQuery): Promise<Submission[]>;
+  /** Submissions sharing either the idempotency key or the content hash (and the source, when given), newest first */
+  findDuplicates(identity: SubmissionIdentity): Promise<Submission[]>;
+}
@@ -0,0 +1,224 @@
+import { ElevenLabsClient, ElevenLabsError, ElevenLabsTimeoutError } from "@elevenlabs/elevenlabs-js";
+import { ProviderError } from "./errors";
+import type {
+  AudioSample,
+  CloneOptions,
+  EnhancedAudio,
+  ProviderCallOptions,
+  ProviderVoice,
+  RemixOptions,
+  VoiceEnhancementProvider,
+} from "./types";
+
+// Largest sample uploaded for instant voice cloning; a minute or two of speech is far below it
+const MAX_SAMPLE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Wrap an SDK error, treating timeouts, network failures, 429 and 5xx as retryable
+ */
+function toProviderError(action: string, error: unknown): ProviderError {
+  const message = `${action}: ${error instanceof Error ? error.message : "Unknown error"}`;
+
+  if (error instanceof ProviderError) {
+    return error;
+  }
+  if (error instanceof ElevenLabsTimeoutError) {
+    return new ProviderError(message, true);
+  }
+  if (error instanceof ElevenLabsError) {
+    const status = error.statusCode;
+    const retryable = status === undefined || status === 408 || status === 429 || status >= 500;
+    return new ProviderError(message, retryable, status);
+  }
+  if (error instanceof Error && error.name === "AbortError") {
+    return new ProviderError(message, true);
+  }
+  return new ProviderError(message, false);
+}
+
+/**
+ * Create a provider backed by ElevenLabs instant voice cloning and voice remix
+ */
+export function createElevenLabsProvider(apiKey: string): VoiceEnhancementProvider {
+  // Initialize AI voice client
+  // Retries are handled by the resilience layer, so the SDK makes a single attempt
+  const elevenlabs = new ElevenLabsClient({ apiKey, maxRetries: 0 });
+
+  /**
+   * Clone a voice using AI voice cloning
+   */
+  async function cloneVoice(
+    sample: AudioSample,
+    voiceName: string,
+    { description, removeBackgroundNoise }: CloneOptions,
+    callOptions: ProviderCallOptions = {}
+  ): Promise<string> {
+    try {
+      console.log("Attempting to clone voice:", voiceName);
+      console.log("Audio buffer size:", sample.buffer.length, "type:", sample.mimeType);
+
+      // Convert buffer to File using Uint8Array, labelled with its detected format
+      const uint8Array = new Uint8Array(sample.buffer);
+      const audioBlob = new Blob([uint8Array], { type: sample.mimeType });
+      const audioFile = new File([audioBlob], sample.fileName, {
+        type: sample.mimeType,
+      });
+
+      console.log("File created, size:", audioFile.size);
+
+      // Clone voice with enhancement description
+      const response = await elevenlabs.voices.ivc.create({
+        name: voiceName,
+        files: [audioFile],
+        description,
+        removeBackgroundNoise,
+      }, { abortSignal: callOptions.signal });
+
+      console.log("Full response from AI:", JSON.stringify(response, null, 2));
+      console.log("Response keys:", Object.keys(response));
+
+      // Try both snake_case and camelCase
+      const voiceId = response.voiceId || (response as unknown as { voice_id?: string }).voice_id;
+      console.log("Voice ID extracted:", voiceId);
+
+      if (!voiceId) {
+        throw new ProviderError(
+          "Voice ID not returned from API. Response: " + JSON.stringify(response),
+          false
+        );
+      }
+
+      return voiceId;
+    } catch (error) {
+      console.error("Voice cloning error details:", error);
+      if (error instanceof Error) {
+        console.error("Error message:", error.message);
+        console.error("Error stack:", error.stack);
+      }
+      throw toProviderError("Failed to clone voice", error);
+    }
+  }
+
+  /**
+   * Generate enhanced audio using voice remix
+   * Simplified: Remix with full transcript → Get audio directly
+   */
+  async function generateEnhancedAudio(
+    voiceId: string,
+    { prompt, text, loudness, guidanceScale, promptStrength }: RemixOptions,
+    callOptions: ProviderCallOptions = {}
+  ): Promise<EnhancedAudio[]> {
+    try {
+      console.log("Remixing voice with enhancement prompt and full transcript...");
+
+      const remixResponse = await elevenlabs.textToVoice.remix(voiceId, {
+        voiceDescription: prompt,
+        text,
+        autoGenerateText: false,
+        loudness,
+        guidanceScale,
+        streamPreviews: false,
+        promptStrength,
+      }, { abortSignal: callOptions.signal });
+
+      console.log("Remix complete. Previews:", remixResponse.previews?.length);
+
+      if (!remixResponse.previews || remixResponse.previews.length === 0) {
+        throw new Error("No audio previews returned from voice remix");
+      }
+
+      // Keep every preview; quality varies between them and an operator picks the best later
+      const previews: EnhancedAudio[] = [];
+      for (const preview of remixResponse.previews) {
+        console.log("Preview duration:", preview.durationSecs);
+        console.log("Preview media type:", preview.mediaType);
+
+        if (!preview.audioBase64) {
+          console.warn("Skipping remix preview without audio data");
+          continue;
+        }
+
+        // Decode base64 audio to buffer
+        const audioBuffer = Buffer.from(preview.audioBase64, "base64");
+        console.log("Enhanced audio buffer size:", audioBuffer.length);
+
+        previews.push({
+          buffer: audioBuffer,
+          duration: preview.durationSecs || 0,
+          mimeType: preview.mediaType || "audio/mpeg",
+        });
+      }
+
+      if (previews.length === 0) {
+        throw new Error("No audio data in remix previews");
+      }
+
+      return previews;
+    } catch (error) {
+      console.error("Voice remix error:", error);
+      if (error instanceof Error) {
+        console.error("Remix error message:", error.message);
+      }
+      throw toProviderError("Failed to generate enhanced audio", error);
+    }
+  }
+
+  /**
+   * Delete cloned voice after processing (cleanup)
+   */
+  async function deleteVoice(voiceId: string, callOptions: ProviderCallOptions = {}): Promise<void> {
+    try {
+      await elevenlabs.voices.delete(voiceId, { abortSignal: callOptions.signal });
+      console.log("Voice deleted successfully:", voiceId);
+    } catch (error) {
+      console.error("Voice deletion error:", error);
+      throw toProviderError("Failed to delete voice", error);
+    }
+  }
+
+  /**
+   * List cloned voices in the account, following pagination
+   */
+  async function listVoices(callOptions: ProviderCallOptions = {}): Promise<ProviderVoice[]> {
+    const voices: ProviderVoice[] = [];
+    let nextPageToken: string | undefined;
+
+    do {
+      let page;
+      try {
+        page = await elevenlabs.voices.search(
+          { category: "cloned", pageSize: 100, nextPageToken },
+          { abortSignal: callOptions.signal }
+        );
+      } catch (error) {
+        throw toProviderError("Failed to list voices", error);
+      }
+
+      for (const voice of page.voices) {
+        voices.push({
+          id: voice.voiceId,
+          name: voice.name || "",
+          createdAt: voice.createdAtUnix ? new Date(voice.createdAtUnix * 1000) : undefined,
+        });
+      }
+      nextPageToken = page.hasMore ? page.nextPageToken : undefined;
+    } while (nextPageToken);
+
+    return voices;
+  }
+
+  return {
+    id: "elevenlabs",
+    capabilities: {
+      label: "ElevenLabs",
+      remix: true,
+      network: true,
+      outputMimeType: "audio/mpeg",
+      maxSampleSize: MAX_SAMPLE_SIZE,
+    },
+    cloneVoice,
+    generateEnhancedAudio,
+    deleteVoice,
+    listVoices,
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Failure from a provider call, labelled with whether trying again could help
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    /** Transient failures (timeouts, rate limits, 5xx) are retried and marked for reprocessing */
+    readonly retryable: boolean,
+    readonly statusCode?: number
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+/**
+ * Thrown without calling the vendor while the circuit breaker is open
+ */
+export class CircuitOpenError extends ProviderError {
+  constructor(retryInMs: number) {
+    super(
+      `Enhancement paused after repeated provider failures; retrying in ${Math.ceil(retryInMs / 1000)}s`,
+      true
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Whether an error is worth retrying later, e.g. by reprocessing the submission
+ */
+export function isTransientProviderError(error: unknown): boolean {
+  return error instanceof ProviderError && error.retryable;
+}
@@ -0,0 +1,57 @@
+import { createElevenLabsProvider } from "./elevenlabs";
+import { createLocalProvider } from "./local";
+import { withResilience } from "./resilience";
+import type { VoiceEnhancementProvider } from "./types";
+
+export type {
+  AudioSample,
+  CloneOptions,
+  EnhancedAudio,
+  ProviderCallOptions,
+  ProviderVoice,
+  RemixOptions,
+  RemixParameters,
+  VoiceEnhancementProvider,
+  VoiceProviderCapabilities,
+} from "./types";
+export { estimateAudioDuration } from "./utils";
+export { CircuitOpenError, ProviderError, isTransientProviderError } from "./errors";
+export { DEFAULT_RESILIENCE_POLICY, type ResiliencePolicy } from "./resilience";
+
+let cachedProvider: VoiceEnhancementProvider | null | undefined;
+
+/**
+ * Resolve the enhancement provider from VOICE_ENHANCEMENT_PROVIDER, wrapped with timeouts, retries and a circuit breaker.
+ * Defaults to ElevenLabs when an API key is present; returns null when enhancement is disabled.
+ */
+export function getVoiceEnhancementProvider(): VoiceEnhancementProvider | null {
+  if (cachedProvider !== undefined) {
+    return cachedProvider;
+  }
+
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+  const providerId =
+    process.env.VOICE_ENHANCEMENT_PROVIDER || (apiKey ? "elevenlabs" : "none");
+
+  switch (providerId) {
+    case "elevenlabs":
+      if (!apiKey) {
+        console.warn("ELEVENLABS_API_KEY is not set in environment variables");
+        cachedProvider = null;
+      } else {
+        cachedProvider = withResilience(createElevenLabsProvider(apiKey));
+      }
+      break;
+    case "local":
+      cachedProvider = withResilience(createLocalProvider());
+      break;
+    case "none":
+      cachedProvider = null;
+      break;
+    default:
+      console.warn(`Unknown VOICE_ENHANCEMENT_PROVIDER "${providerId}" - enhancement disabled`);
+      cachedProvider = null;
+  }
+
+  return cachedProvider;
+}
@@ -0,0 +1,135 @@
+import { createHash } from "crypto";
+import { encodeWav } from "@/lib/wav";
+import type {
+  AudioSample,
+  EnhancedAudio,
+  ProviderVoice,
+  RemixOptions,
+  VoiceEnhancementProvider,
+} from "./types";
+
+const SAMPLE_RATE = 16000;
+const SECONDS_PER_WORD = 60 / 150; // Same pacing as estimateAudioDuration
+const PREVIEW_COUNT = 3; // Voice remix usually returns three
+// Matches ElevenLabs so local runs turn away the same recordings
+const MAX_SAMPLE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Small seeded PRNG (mulberry32) so the same voice always renders the same audio
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Render one tone burst per word of the transcript, pitched around the voice's base frequency
+ */
+function synthesizeSpeechLikeAudio(seed: number, text: string): Float32Array {
+  const random = createRandom(seed);
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const samplesPerWord = Math.round(SECONDS_PER_WORD * SAMPLE_RATE);
+  const samples = new Float32Array(words.length * samplesPerWord);
+  const baseFrequency = 110 + random() * 110; // Between a low and a high speaking voice
+
+  words.forEach((word, index) => {
+    const start = index * samplesPerWord;
+    // Longer words get a longer burst, leaving a short gap before the next word
+    const burstLength = Math.min(
+      samplesPerWord - Math.round(0.05 * SAMPLE_RATE),
+      Math.round((0.12 + word.length * 0.03) * SAMPLE_RATE)
+    );
+    const frequency = baseFrequency * (0.85 + random() * 0.3);
+    const pause = /[.,!?;:]$/.test(word);
+
+    for (let i = 0; i < burstLength; i++) {
+      const t = i / SAMPLE_RATE;
+      const envelope = Math.sin((Math.PI * i) / burstLength);
+      const tone =
+        Math.sin(2 * Math.PI * frequency * t) * 0.6 +
+        Math.sin(2 * Math.PI * frequency * 2 * t) * 0.25 +
+        Math.sin(2 * Math.PI * frequency * 3 * t) * 0.15;
+      samples[start + i] = tone * envelope * (pause ? 0.35 : 0.5);
+    }
+  });
+
+  return samples;
+}
+
+function seedFromVoiceId(voiceId: string): number {
+  return createHash("sha256").update(voiceId).digest().readUInt32LE(0);
+}
+
+/**
+ * Create an offline provider that "clones" by hashing the sample and renders synthesized audio.
+ * Output is deterministic for a given recording, so the booth flow can run without network.
+ */
+export function createLocalProvider(): VoiceEnhancementProvider {
+  const voices = new Map<string, { name: string; createdAt: Date }>();
+
+  async function cloneVoice(sample: AudioSample, voiceName: string): Promise<string> {
+    if (sample.buffer.length === 0) {
+      throw new Error("Failed to clone voice: audio sample is empty");
+    }
+
+    const digest = createHash("sha256").update(sample.buffer).digest("hex");
+    const voiceId = `local-${digest.slice(0, 20)}`;
+    voices.set(voiceId, { name: voiceName, createdAt: new Date() });
+    console.log("Local voice cloned:", voiceName, voiceId);
+    return voiceId;
+  }
+
+  async function generateEnhancedAudio(
+    voiceId: string,
+    { text }: RemixOptions
+  ): Promise<EnhancedAudio[]> {
+    if (!voices.has(voiceId)) {
+      throw new Error(`Failed to generate enhanced audio: unknown voice ${voiceId}`);
+    }
+
+    // Each preview gets its own seed so they sound different but stay reproducible
+    return Array.from({ length: PREVIEW_COUNT }, (_, index) => {
+      const samples = synthesizeSpeechLikeAudio(seedFromVoiceId(`${voiceId}:${index}`), text);
+      const wav = encodeWav(samples, SAMPLE_RATE);
+      console.log(`Local enhanced preview ${index + 1} rendered, size:`, wav.length);
+
+      return {
+        buffer: Buffer.from(wav),
+        duration: samples.length / SAMPLE_RATE,
+        mimeType: "audio/wav",
+      };
+    });
+  }
+
+  async function deleteVoice(voiceId: string): Promise<void> {
+    if (!voices.delete(voiceId)) {
+      throw new Error(`Failed to delete voice: unknown voice ${voiceId}`);
+    }
+    console.log("Local voice deleted:", voiceId);
+  }
+
+  async function listVoices(): Promise<ProviderVoice[]> {
+    return Array.from(voices, ([id, { name, createdAt }]) => ({ id, name, createdAt }));
+  }
+
+  return {
+    id: "local",
+    capabilities: {
+      label: "Local",
+      remix: true,
+      network: false,
+      outputMimeType: "audio/wav",
+      maxSampleSize: MAX_SAMPLE_SIZE,
+    },
+    cloneVoice,
+    generateEnhancedAudio,
+    deleteVoice,
+    listVoices,
+  };
+}
@@ -0,0 +1,138 @@
+import { CircuitOpenError, ProviderError, isTransientProviderError } from "./errors";
+import type { ProviderCallOptions, VoiceEnhancementProvider } from "./types";
+
+export interface CallPolicy {
+  timeoutMs: number;
+  maxAttempts: number;
+}
+
+export interface ResiliencePolicy {
+  clone: CallPolicy;
+  remix: CallPolicy;
+  delete: CallPolicy;
+  list: CallPolicy;
+  /** First backoff ceiling; doubles per retry up to maxDelayMs, with full jitter */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Consecutive transient failures that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit skips enhancement before letting a call through again */
+  cooldownMs: number;
+}
+
+// Worst case for one run, all inside the enhance route's 300s maxDuration:
+// - intake: joining, reading and copying a direct upload of up to 50MB, about 20s
+// - the received email: 30s at most with the SMTP timeouts in lib/mailer/smtp.ts
+// - provider calls: clone 2 × 35s, remix 2 × 65s and delete 2 × 10s, plus up to 1.5s of backoff, about 222s
+// - notifications: channels are sent to in parallel with 10s timeouts
+// That leaves ~18s for storing previews, signing links and recording stages.
+export const DEFAULT_RESILIENCE_POLICY: ResiliencePolicy = {
+  clone: { timeoutMs: 35_000, maxAttempts: 2 },
+  remix: { timeoutMs: 65_000, maxAttempts: 2 },
+  delete: { timeoutMs: 10_000, maxAttempts: 2 },
+  list: { timeoutMs: 30_000, maxAttempts: 2 },
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  failureThreshold: 3,
+  cooldownMs: 60_000,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run one attempt, aborting it and failing with a retryable error once timeoutMs passes
+ */
+async function attemptWithTimeout<T>(
+  call: (callOptions: ProviderCallOptions) => Promise<T>,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ProviderError(`Timed out after ${timeoutMs / 1000}s`, true));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([call({ signal: controller.signal }), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Wrap a provider with per-call timeouts, retries with exponential backoff and jitter,
+ * and a circuit breaker that fails clone and remix fast while the vendor is unhealthy
+ */
+export function withResilience(
+  provider: VoiceEnhancementProvider,
+  policy: ResiliencePolicy = DEFAULT_RESILIENCE_POLICY
+): VoiceEnhancementProvider {
+  let consecutiveFailures = 0;
+  let openUntil = 0;
+
+  async function run<T>(
+    operation: string,
+    callPolicy: CallPolicy,
+    useBreaker: boolean,
+    call: (callOptions: ProviderCallOptions) => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      if (useBreaker && Date.now() < openUntil) {
+        throw new CircuitOpenError(openUntil - Date.now());
+      }
+
+      try {
+        const result = await attemptWithTimeout(call, callPolicy.timeoutMs);
+        if (useBreaker) {
+          consecutiveFailures = 0;
+        }
+        return result;
+      } catch (error) {
+        const transient = isTransientProviderError(error);
+
+        if (!transient || attempt >= callPolicy.maxAttempts) {
+          // Only vendor trouble counts towards the breaker; a rejected recording says nothing about its health
+          if (useBreaker && transient) {
+            consecutiveFailures++;
+            if (consecutiveFailures >= policy.failureThreshold) {
+              openUntil = Date.now() + policy.cooldownMs;
+              console.error(
+                `${provider.capabilities.label} circuit opened after ${consecutiveFailures} failures; skipping enhancement for ${policy.cooldownMs / 1000}s`
+              );
+            }
+          }
+          throw error;
+        }
+
+        const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+        const delay = Math.round(Math.random() * ceiling);
+        console.warn(
+          `${provider.capabilities.label} ${operation} attempt ${attempt}/${callPolicy.maxAttempts} failed, retrying in ${delay}ms:`,
+          error instanceof Error ? error.message : error
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  return {
+    id: provider.id,
+    capabilities: provider.capabilities,
+    // A clone that times out may still have been created; retries can leave a duplicate for the reaper
+    cloneVoice: (sample, voiceName, options) =>
+      run("clone", policy.clone, true, (callOptions) =>
+        provider.cloneVoice(sample, voiceName, options, callOptions)
+      ),
+    generateEnhancedAudio: (voiceId, options) =>
+      run("remix", policy.remix, true, (callOptions) =>
+        provider.generateEnhancedAudio(voiceId, options, callOptions)
+      ),
+    deleteVoice: (voiceId) =>
+      run("delete", policy.delete, false, (callOptions) => provider.deleteVoice(voiceId, callOptions)),
+    listVoices: () =>
+      run("list", policy.list, false, (callOptions) => provider.listVoices(callOptions)),
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * What a voice enhancement provider can do
+ */
+export interface VoiceProviderCapabilities {
+  /** Human-readable vendor name used in logs and notifications */
+  label: string;
+  /** Whether the provider can remix a cloned voice into new audio */
+  remix: boolean;
+  /** Whether calls leave this machine */
+  network: boolean;
+  /** MIME type of the generated audio */
+  outputMimeType: string;
+  /** Largest recording sent for cloning, in bytes; the whole sample is held in memory for the call */
+  maxSampleSize: number;
+}
+
+/**
+ * Recording handed to a provider for cloning, typed from its detected format
+ */
+export interface AudioSample {
+  buffer: Buffer;
+  mimeType: string;
+  fileName: string;
+}
+
+/**
+ * Settings applied when the sample is cloned
+ */
+export interface CloneOptions {
+  description: string;
+  removeBackgroundNoise: boolean;
+}
+
+/**
+ * Remix tuning, as defined by an enhancement preset
+ */
+export interface RemixParameters {
+  /** -1 (quietest) to 1 (loudest) */
+  loudness: number;
+  /** How strictly the output follows the prompt */
+  guidanceScale: number;
+  /** 0 keeps the original voice, 1 follows the prompt entirely */
+  promptStrength: number;
+}
+
+/**
+ * Prompt, transcript and tuning used to generate enhanced audio from a cloned voice
+ */
+export interface RemixOptions extends RemixParameters {
+  prompt: string;
+  text: string;
+}
+
+export interface EnhancedAudio {
+  buffer: Buffer;
+  duration: number;
+  mimeType: string;
+}
+
+/**
+ * A cloned voice held in the vendor account
+ */
+export interface ProviderVoice {
+  id: string;
+  name: string;
+  /** When the vendor reports it */
+  createdAt?: Date;
+}
+
+/**
+ * Per-call settings passed down by the resilience layer
+ */
+export interface ProviderCallOptions {
+  /** Aborted when the call times out */
+  signal?: AbortSignal;
+}
+
+/**
+ * A vendor that can clone a voice, remix it, and clean it up afterwards
+ */
+export interface VoiceEnhancementProvider {
+  readonly id: string;
+  readonly capabilities: VoiceProviderCapabilities;
+  cloneVoice(
+    sample: AudioSample,
+    voiceName: string,
+    options: CloneOptions,
+    callOptions?: ProviderCallOptions
+  ): Promise<string>;
+  /** Every preview the vendor generated, in its order; never empty */
+  generateEnhancedAudio(
+    voiceId: string,
+    options: RemixOptions,
+    callOptions?: ProviderCallOptions
+  ): Promise<EnhancedAudio[]>;
+  /** Throws when the vendor refuses, so callers can tell a leftover voice from a removed one */
+  deleteVoice(voiceId: string, callOptions?: ProviderCallOptions): Promise<void>;
+  /** Every cloned voice in the account, whoever created it */
+  listVoices(callOptions?: ProviderCallOptions): Promise<ProviderVoice[]>;
+}
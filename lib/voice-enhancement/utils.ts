@@ -0,0 +1,9 @@
+/**
+ * Get estimated audio duration from text
+ */
+export function estimateAudioDuration(text: string): number {
+  // Average speaking rate: ~150 words per minute
+  const wordCount = text.trim().split(/\s+/).length;
+  const estimatedMinutes = wordCount / 150;
+  return Math.round(estimatedMinutes * 60); // Convert to seconds
+}
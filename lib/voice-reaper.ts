@@ -0,0 +1,114 @@
+import { getVoiceEnhancementProvider, type ProviderVoice } from "@/lib/voice-enhancement";
+import { getSubmissionRepository } from "@/lib/submissions";
+import { CAMPAIGNS } from "@/lib/campaigns";
+
+// A run is capped at 300s, so a voice this old is no longer in use by a healthy run
+export const DEFAULT_REAPER_MIN_AGE_MINUTES = 30;
+
+export type ReapAction = "deleted" | "would_delete" | "in_flight" | "too_recent" | "unknown_age" | "failed";
+
+export interface ReapedVoice {
+  id: string;
+  name: string;
+  createdAt?: string;
+  ageMinutes?: number;
+  action: ReapAction;
+  error?: string;
+}
+
+export interface ReaperReport {
+  provider: string;
+  dryRun: boolean;
+  minAgeMinutes: number;
+  /** Voices in the vendor account, before filtering by our naming prefixes */
+  scanned: number;
+  voices: ReapedVoice[];
+}
+
+export interface ReaperOptions {
+  dryRun: boolean;
+  minAgeMinutes?: number;
+}
+
+/**
+ * When a voice was cloned: the vendor's timestamp, or the Date.now() suffix our voice names end with
+ */
+function getVoiceCreatedAt(voice: ProviderVoice): Date | undefined {
+  if (voice.createdAt) {
+    return voice.createdAt;
+  }
+  const match = /-(\d{13})$/.exec(voice.name);
+  return match ? new Date(parseInt(match[1], 10)) : undefined;
+}
+
+/**
+ * Delete cloned voices named with a campaign prefix that outlived their run.
+ * Voices still attached to a processing submission are never touched.
+ * Returns null when no enhancement provider is configured.
+ */
+export async function reapOrphanedVoices({
+  dryRun,
+  minAgeMinutes = DEFAULT_REAPER_MIN_AGE_MINUTES,
+}: ReaperOptions): Promise<ReaperReport | null> {
+  const provider = getVoiceEnhancementProvider();
+  if (!provider) {
+    return null;
+  }
+
+  const prefixes = CAMPAIGNS.map((campaign) => campaign.voiceNamePrefix);
+  const inFlightVoiceIds = new Set(
+    (await getSubmissionRepository().list({ status: "processing" }))
+      .map((submission) => submission.voiceId)
+      .filter(Boolean)
+  );
+
+  const allVoices = await provider.listVoices();
+  const ourVoices = allVoices.filter((voice) =>
+    prefixes.some((prefix) => voice.name.startsWith(prefix))
+  );
+  const now = Date.now();
+  const voices: ReapedVoice[] = [];
+
+  for (const voice of ourVoices) {
+    const createdAt = getVoiceCreatedAt(voice);
+    const ageMinutes = createdAt ? Math.floor((now - createdAt.getTime()) / 60000) : undefined;
+    const entry: ReapedVoice = {
+      id: voice.id,
+      name: voice.name,
+      createdAt: createdAt?.toISOString(),
+      ageMinutes,
+      action: "would_delete",
+    };
+
+    if (inFlightVoiceIds.has(voice.id)) {
+      entry.action = "in_flight";
+    } else if (ageMinutes === undefined) {
+      entry.action = "unknown_age";
+    } else if (ageMinutes < minAgeMinutes) {
+      entry.action = "too_recent";
+    } else if (!dryRun) {
+      try {
+        await provider.deleteVoice(voice.id);
+        entry.action = "deleted";
+      } catch (error) {
+        entry.action = "failed";
+        entry.error = error instanceof Error ? error.message : "Unknown error";
+      }
+    }
+
+    voices.push(entry);
+  }
+
+  const deleted = voices.filter((voice) => voice.action === "deleted").length;
+  console.log(
+    `Voice reaper (${dryRun ? "dry run" : "live"}): ${ourVoices.length} of ${allVoices.length} voices matched, ${deleted} deleted`
+  );
+
+  return {
+    provider: provider.capabilities.label,
+    dryRun,
+    minAgeMinutes,
+    scanned: allVoices.length,
+    voices,
+  };
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminCredentials, isAdminAuthorized, isCrossOriginRequest } from "@/lib/admin-auth";
+
+/**
+ * Guard the operator area with HTTP Basic auth, and turn away admin actions posted from other sites
+ */
+export function proxy(request: NextRequest) {
+  if (!getAdminCredentials()) {
+    return NextResponse.json(
+      { error: "Admin area is not configured" },
+      { status: 503 }
+    );
+  }
+
+  if (!isAdminAuthorized(request.headers.get("authorization"))) {
+    return new NextResponse("Authentication required", {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Basic realm="Mirage admin", charset="UTF-8"' },
+    });
+  }
+
+  const host = request.headers.get("x-forwarded-host") || request.headers.get("host");
+  if (
+    request.method !== "GET" &&
+    request.method !== "HEAD" &&
+    isCrossOriginRequest(request.headers.get("origin"), host)
+  ) {
+    return NextResponse.json(
+      { error: "Admin actions must come from the admin pages" },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/admin/:path*"],
+};
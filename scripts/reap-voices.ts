@@ -0,0 +1,46 @@
+/**
+ * Delete cloned voices left behind by runs that never cleaned up.
+ *
+ *   npm run reap-voices -- [--dry-run] [--min-age=<minutes>]
+ */
+import { loadEnvConfig } from "@next/env";
+import { DEFAULT_REAPER_MIN_AGE_MINUTES, reapOrphanedVoices } from "@/lib/voice-reaper";
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const minAgeArg = args.find((arg) => arg.startsWith("--min-age="));
+  const minAgeMinutes = minAgeArg
+    ? Number(minAgeArg.slice("--min-age=".length))
+    : DEFAULT_REAPER_MIN_AGE_MINUTES;
+
+  if (!Number.isInteger(minAgeMinutes) || minAgeMinutes < 0) {
+    console.error("--min-age must be a whole number of minutes");
+    process.exit(1);
+  }
+
+  const report = await reapOrphanedVoices({ dryRun, minAgeMinutes });
+  if (!report) {
+    console.error("Voice enhancement provider not configured");
+    process.exit(1);
+  }
+
+  console.log(
+    `${report.provider}: scanned ${report.scanned} voices, ${report.voices.length} match our prefixes (min age ${report.minAgeMinutes} min${report.dryRun ? ", dry run" : ""})`
+  );
+  for (const voice of report.voices) {
+    const age = voice.ageMinutes === undefined ? "?" : `${voice.ageMinutes}m`;
+    console.log(`  ${voice.action.padEnd(12)} ${age.padStart(6)}  ${voice.id}  ${voice.name}${voice.error ? `  (${voice.error})` : ""}`);
+  }
+
+  if (report.voices.some((voice) => voice.action === "failed")) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Voice reaper failed:", error);
+  process.exit(1);
+});